@@ -0,0 +1,86 @@
+import { describe, it, expect } from '@jest/globals';
+import { formatChangelogEntry, generateChangelog } from '../changelog';
+import { Commit } from '../github/types';
+
+
+describe('formatChangelogEntry', () => {
+  it('should format entry with scope and short SHA', () => {
+    const result = formatChangelogEntry('add login page', 'ui', 'abcdef1234567890');
+    expect(result).toBe('- **ui:** add login page (abcdef1)');
+  });
+
+  it('should format entry without scope', () => {
+    const result = formatChangelogEntry('add login page', null, 'abcdef1234567890');
+    expect(result).toBe('- add login page (abcdef1)');
+  });
+});
+
+
+describe('generateChangelog', () => {
+  it('should return empty string for empty list of commits', () => {
+    expect(generateChangelog([])).toBe('');
+  });
+
+  it('should group commits into sections', () => {
+    const commits: Commit[] = [
+      { sha: 'aaaaaaa1111111', message: 'feat(api): add user endpoint' },
+      { sha: 'bbbbbbb2222222', message: 'fix: resolve memory leak' },
+      { sha: 'ccccccc3333333', message: 'feat: add dark mode' },
+      { sha: 'ddddddd4444444', message: 'perf(db): speed up queries' },
+    ];
+
+    const result = generateChangelog(commits);
+
+    expect(result).toBe([
+      '### Features',
+      '',
+      '- **api:** add user endpoint (aaaaaaa)',
+      '- add dark mode (ccccccc)',
+      '',
+      '### Bug Fixes',
+      '',
+      '- resolve memory leak (bbbbbbb)',
+      '',
+      '### Performance Improvements',
+      '',
+      '- **db:** speed up queries (ddddddd)',
+    ].join('\n'));
+  });
+
+  it('should put breaking changes into a separate section', () => {
+    const commits: Commit[] = [
+      { sha: 'aaaaaaa1111111', message: 'feat(api)!: remove v1 endpoints' },
+      { sha: 'bbbbbbb2222222', message: 'fix: update user model\n\nBREAKING CHANGE: user id is now a string' },
+    ];
+
+    const result = generateChangelog(commits);
+
+    expect(result).toBe([
+      '### Breaking Changes',
+      '',
+      '- **api:** remove v1 endpoints (aaaaaaa)',
+      '- user id is now a string (bbbbbbb)',
+      '',
+      '### Features',
+      '',
+      '- **api:** remove v1 endpoints (aaaaaaa)',
+      '',
+      '### Bug Fixes',
+      '',
+      '- update user model (bbbbbbb)',
+    ].join('\n'));
+  });
+
+  it('should skip merge, non-conventional and not listed commits', () => {
+    const commits: Commit[] = [
+      { sha: 'aaaaaaa1111111', message: 'Merge pull request #1 from user/branch' },
+      { sha: 'bbbbbbb2222222', message: 'Bug fixes and improvements' },
+      { sha: 'ccccccc3333333', message: 'docs: update README' },
+      { sha: 'ddddddd4444444', message: 'fix: resolve login issue' },
+    ];
+
+    const result = generateChangelog(commits);
+
+    expect(result).toBe('### Bug Fixes\n\n- resolve login issue (ddddddd)');
+  });
+});
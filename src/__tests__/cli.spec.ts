@@ -0,0 +1,260 @@
+import { jest, describe, beforeEach, afterEach, it, expect } from '@jest/globals';
+import { LocalGitClient } from '../git';
+import { GitHubClient } from '../github';
+import { getNextVersion } from '../main';
+import { CliOutputFormat, CliUsageError, formatResult, parseCliArgs, runCli } from '../cli';
+import { Backend, PackagesVersionResult, VersionResult } from '../types';
+
+// Mock dependencies
+jest.mock('../git');
+jest.mock('../github');
+jest.mock('../main');
+
+const mockLocalGitClient = LocalGitClient as jest.MockedClass<typeof LocalGitClient>;
+const mockGitHubClient = GitHubClient as jest.MockedClass<typeof GitHubClient>;
+const mockGetNextVersion = getNextVersion as jest.MockedFunction<typeof getNextVersion>;
+
+const versionResult: VersionResult = {
+  latestReleaseTag: 'v1.2.3',
+  currentVersion: '1.2.3',
+  newVersion: '1.3.0',
+  newMajorVersion: 1,
+  newTag: 'v1.3.0',
+  releaseNeeded: true,
+  changelog: '### Features',
+  bumpDecision: { bumpType: 'minor', considered: [], ignored: [], nonConventional: [], trigger: null },
+  stable: true,
+  formattedVersions: { pep440: '1.3.0', nuget: '1.3.0', maven: '1.3.0', docker: '1.3.0' },
+};
+
+
+describe('parseCliArgs', () => {
+  const env = { GITHUB_TOKEN: 'env-token' };
+
+  it('should parse arguments of next command', () => {
+    const result = parseCliArgs([
+      'next',
+      '--repo', 'owner/repo',
+      '--branch', 'develop',
+      '--sha', 'abc123',
+      '--format', 'json',
+      '--path', 'src/',
+      '--path', '!src/**/*.md',
+      '--scope', 'api',
+      '--pre-release-mode', 'counter',
+      '--initial-development-mode',
+      '--resolve-pull-requests',
+    ], env);
+
+    expect(result).toEqual({
+      backend: Backend.GITHUB,
+      repository: 'owner/repo',
+      token: 'env-token',
+      apiUrl: null,
+      targetBranchRef: 'refs/heads/develop',
+      notConventionalCommitsReaction: 'warn',
+      initReleaseVersion: 'v0.1.0',
+      preReleaseVersionGlue: '-',
+      format: CliOutputFormat.JSON,
+      verbose: false,
+      options: expect.objectContaining({
+        commitSha: 'abc123',
+        paths: ['src/', '!src/**/*.md'],
+        scopes: ['api'],
+        preReleaseMode: 'counter',
+        initialDevelopmentMode: true,
+        resolvePullRequests: true,
+        skipReleaseWhenNotNeeded: false,
+      }),
+    });
+  });
+
+  it('should keep full refs and default to the default branch', () => {
+    expect(parseCliArgs(['next', '--repo', 'owner/repo', '--branch', 'refs/tags/v1.0.0'], env).targetBranchRef).toBe('refs/tags/v1.0.0');
+    expect(parseCliArgs(['next', '--repo', 'owner/repo'], env).targetBranchRef).toBeNull();
+  });
+
+  it('should prefer token option over environment', () => {
+    expect(parseCliArgs(['next', '--repo', 'owner/repo', '--token', 'flag-token'], env).token).toBe('flag-token');
+    expect(parseCliArgs(['next', '--repo', 'owner/repo'], { GH_TOKEN: 'gh-token' }).token).toBe('gh-token');
+  });
+
+  it('should not require repository and token with git backend', () => {
+    const result = parseCliArgs(['next', '--backend', 'git'], {});
+
+    expect(result.backend).toBe(Backend.GIT);
+    expect(result.repository).toBeNull();
+    expect(result.token).toBeNull();
+  });
+
+  it('should require API URL with gitea backend', () => {
+    const result = parseCliArgs(['next', '--backend', 'gitea', '--repo', 'owner/repo', '--api-url', 'https://gitea.example.com'], { GITEA_TOKEN: 'gitea-token' });
+
+    expect(result.backend).toBe(Backend.GITEA);
+    expect(result.token).toBe('gitea-token');
+    expect(result.apiUrl).toBe('https://gitea.example.com');
+    expect(() => parseCliArgs(['next', '--backend', 'gitea', '--repo', 'owner/repo'], {})).toThrow(
+      'Option --api-url must be set with the gitea backend'
+    );
+  });
+
+  it('should parse pre-release template values', () => {
+    const result = parseCliArgs([
+      'next', '--repo', 'owner/repo', '--pre-release-template', '{branch}.{pr_number}.{run_number}', '--run-number', '42', '--pr-number', '7',
+    ], env);
+
+    expect(result.options).toMatchObject({ preReleaseTemplate: '{branch}.{pr_number}.{run_number}', runNumber: 42, pullRequestNumber: 7 });
+  });
+
+  it('should return null when help is requested', () => {
+    expect(parseCliArgs(['--help'], env)).toBeNull();
+  });
+
+  it.each([
+    [[], 'Missing command'],
+    [['publish'], "Unknown command 'publish'"],
+    [['next'], 'Option --repo must be given in the format owner/repo'],
+    [['next', '--repo', 'repo'], 'Option --repo must be given in the format owner/repo'],
+    [['next', '--repo', 'owner/repo', '--format', 'yaml'], "Invalid output format 'yaml', must be one of: text, json"],
+    [['next', '--repo', 'owner/repo', '--unknown'], "Unknown option '--unknown'"],
+    [['next', '--backend', 'svn'], 'Invalid backend: Invalid Backend value: svn'],
+    [['next', '--repo', 'owner/repo', '--run-number', 'abc'], 'Option --run-number must be a number'],
+  ])('should throw usage error for %j', (args, message) => {
+    expect(() => parseCliArgs(args, env)).toThrow(CliUsageError);
+    expect(() => parseCliArgs(args, env)).toThrow(message);
+  });
+
+  it('should throw usage error without token', () => {
+    expect(() => parseCliArgs(['next', '--repo', 'owner/repo'], {})).toThrow('Option --token or environment variable GITHUB_TOKEN must be set');
+  });
+});
+
+
+describe('formatResult', () => {
+  it('should format version as text', () => {
+    expect(formatResult(versionResult, CliOutputFormat.TEXT)).toBe([
+      'Latest release tag: v1.2.3',
+      'Current version: 1.2.3',
+      'New version: 1.3.0',
+      'New tag: v1.3.0',
+      'Release needed: true',
+      'Bump type: minor',
+    ].join('\n'));
+  });
+
+  it('should format package versions as text', () => {
+    const result: PackagesVersionResult = {
+      releaseNeeded: true,
+      stable: true,
+      packages: {
+        core: { latestReleaseTag: 'core@1.0.0', currentVersion: '1.0.0', newVersion: '1.1.0', newTag: 'core@1.1.0', bumpType: 'minor', releaseNeeded: true, changelog: '' },
+        api: { latestReleaseTag: 'api@2.0.0', currentVersion: '2.0.0', newVersion: '2.0.0', newTag: 'api@2.0.0', bumpType: null, releaseNeeded: false, changelog: '' },
+      },
+    };
+
+    expect(formatResult(result, CliOutputFormat.TEXT)).toBe('core: 1.0.0 -> 1.1.0 (core@1.1.0)\napi: 2.0.0 (no release needed)');
+  });
+
+  it('should format result as JSON', () => {
+    expect(JSON.parse(formatResult(versionResult, CliOutputFormat.JSON))).toEqual(versionResult);
+  });
+});
+
+
+describe('runCli', () => {
+  let stdout: Array<string>;
+  let stderr: Array<string>;
+  let mockGitHubClientInstance: jest.Mocked<GitHubClient>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    stdout = [];
+    stderr = [];
+    jest.spyOn(process.stdout, 'write').mockImplementation((chunk: string) => stdout.push(chunk) > 0);
+    jest.spyOn(process.stderr, 'write').mockImplementation((chunk: string) => stderr.push(chunk) > 0);
+
+    mockGitHubClientInstance = { getDefaultBranchName: jest.fn() } as any;
+    mockGitHubClientInstance.getDefaultBranchName.mockResolvedValue('main');
+    mockGitHubClient.mockImplementation(() => mockGitHubClientInstance);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should print next version of default branch', async () => {
+    mockGetNextVersion.mockResolvedValue(versionResult);
+
+    const exitCode = await runCli(['next', '--repo', 'owner/repo', '--token', 'token']);
+
+    expect(exitCode).toBe(0);
+    expect(mockGitHubClient).toHaveBeenCalledWith('token', 'owner/repo', undefined, expect.any(Object));
+    expect(mockGetNextVersion).toHaveBeenCalledWith(
+      mockGitHubClientInstance, 'refs/heads/main', 'warn', 'v0.1.0', '-', expect.any(Object), mockGitHubClient.mock.calls[0][3]
+    );
+    expect(stdout.join('')).toContain('New version: 1.3.0\n');
+  });
+
+  it('should print next version of checked out branch with git backend', async () => {
+    const mockLocalGitClientInstance = { getHeadRef: jest.fn() } as any as jest.Mocked<LocalGitClient>;
+    mockLocalGitClientInstance.getHeadRef.mockResolvedValue('refs/heads/feature/login');
+    mockLocalGitClient.mockImplementation(() => mockLocalGitClientInstance);
+    mockGetNextVersion.mockResolvedValue(versionResult);
+
+    const exitCode = await runCli(['next', '--backend', 'git']);
+
+    expect(exitCode).toBe(0);
+    expect(mockGitHubClient).not.toHaveBeenCalled();
+    expect(mockLocalGitClient).toHaveBeenCalledWith(process.cwd(), expect.any(Object));
+    expect(mockGetNextVersion).toHaveBeenCalledWith(
+      mockLocalGitClientInstance, 'refs/heads/feature/login', 'warn', 'v0.1.0', '-', expect.any(Object), expect.any(Object)
+    );
+  });
+
+  it('should write only warnings to stderr', async () => {
+    mockGetNextVersion.mockImplementation(async (...args) => {
+      const logger = args[6];
+      logger.debug('Getting list of commits');
+      logger.info('Latest release tag: v1.2.3');
+      logger.warning('Commit is not conventional');
+      return versionResult;
+    });
+
+    await runCli(['next', '--repo', 'owner/repo', '--token', 'token', '--format', 'json']);
+
+    expect(JSON.parse(stdout.join(''))).toEqual(versionResult);
+    expect(stderr.join('')).toBe('Warning: Commit is not conventional\n');
+  });
+
+  it('should write whole log to stderr in verbose mode', async () => {
+    mockGetNextVersion.mockImplementation(async (...args) => {
+      const logger = args[6];
+      logger.debug('Getting list of commits');
+      logger.info('Latest release tag: v1.2.3');
+      return versionResult;
+    });
+
+    await runCli(['next', '--repo', 'owner/repo', '--token', 'token', '--verbose']);
+
+    expect(stderr.join('')).toBe('Getting list of commits\nLatest release tag: v1.2.3\n');
+  });
+
+  it('should return 1 when version cannot be determined', async () => {
+    mockGetNextVersion.mockRejectedValue(new Error('Invalid version source: Unknown version source: branch'));
+
+    const exitCode = await runCli(['next', '--repo', 'owner/repo', '--token', 'token']);
+
+    expect(exitCode).toBe(1);
+    expect(stdout).toEqual([]);
+    expect(stderr.join('')).toBe('Invalid version source: Unknown version source: branch\n');
+  });
+
+  it('should return 2 on invalid arguments', async () => {
+    const exitCode = await runCli(['next']);
+
+    expect(exitCode).toBe(2);
+    expect(stderr.join('')).toContain('Usage: action-semver next');
+    expect(mockGetNextVersion).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,181 @@
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { bumpVersionInContent, bumpVersionInFiles } from '../files';
+import { BumpFileFormat } from '../types';
+
+// Mock @actions/core
+jest.mock('@actions/core');
+
+
+describe('bumpVersionInContent', () => {
+  describe('package.json', () => {
+    it('should replace top-level version only', () => {
+      const content = [
+        '{',
+        '  "name": "app",',
+        '  "version":  "1.0.0",',
+        '  "dependencies": { "lib": { "version": "2.0.0" } },',
+        '  "description": "says \\"version\\": \\"0.0.1\\""',
+        '}',
+        '',
+      ].join('\n');
+
+      expect(bumpVersionInContent(content, BumpFileFormat.PACKAGE_JSON, '1.1.0-rc.1', true, 'package.json')).toBe(
+        content.replace('"version":  "1.0.0"', '"version":  "1.1.0-rc.1"')
+      );
+    });
+
+    it('should not replace nested version', () => {
+      expect(() => bumpVersionInContent('{"engines": {"version": "1.0.0"}}', BumpFileFormat.PACKAGE_JSON, '1.1.0', true, 'package.json')).toThrow(
+        'No version field found in package.json'
+      );
+    });
+  });
+
+  describe('pyproject.toml', () => {
+    it('should replace version of project table with PEP 440 version', () => {
+      const content = [
+        '[build-system]',
+        'requires = ["hatchling"]',
+        '',
+        '[project]',
+        'name = "app"',
+        "version = '1.0.0'  # managed by CI",
+        '',
+        '[tool.other]',
+        'version = "9.9.9"',
+        '',
+      ].join('\n');
+
+      expect(bumpVersionInContent(content, BumpFileFormat.PYPROJECT, '1.1.0-rc.1', false, 'pyproject.toml')).toBe(
+        content.replace("version = '1.0.0'", "version = '1.1.0rc1'")
+      );
+    });
+
+    it('should fall back to poetry table', () => {
+      const content = '[tool.poetry]\nname = "app"\nversion = "1.0.0"\n';
+
+      expect(bumpVersionInContent(content, BumpFileFormat.PYPROJECT, '1.1.0-abc1234', false, 'pyproject.toml')).toBe(
+        '[tool.poetry]\nname = "app"\nversion = "1.1.0.dev0+abc1234"\n'
+      );
+    });
+
+    it('should replace version suffixed with plus glue on non-stable branch with development release', () => {
+      const content = '[project]\nname = "app"\nversion = "1.0.0"\n';
+
+      expect(bumpVersionInContent(content, BumpFileFormat.PYPROJECT, '1.2.0+devabc1234', false, 'pyproject.toml')).toBe(
+        '[project]\nname = "app"\nversion = "1.2.0.dev0+abc1234"\n'
+      );
+      expect(bumpVersionInContent(content, BumpFileFormat.PYPROJECT, '1.2.0+build.5', true, 'pyproject.toml')).toBe(
+        '[project]\nname = "app"\nversion = "1.2.0+build.5"\n'
+      );
+    });
+
+    it('should throw when version is dynamic', () => {
+      expect(() => bumpVersionInContent('[project]\nname = "app"\ndynamic = ["version"]\n', BumpFileFormat.PYPROJECT, '1.1.0', true, 'pyproject.toml')).toThrow(
+        'No version field found in pyproject.toml'
+      );
+    });
+  });
+
+  describe('Chart.yaml', () => {
+    it('should replace chart version keeping quotes and comments', () => {
+      const content = 'apiVersion: v2\nname: app\nversion: "1.0.0" # chart version\nappVersion: "1.0.0"\ndependencies:\n  - name: db\n    version: 2.0.0\n';
+
+      expect(bumpVersionInContent(content, BumpFileFormat.CHART, '1.1.0', true, 'Chart.yaml')).toBe(
+        content.replace('version: "1.0.0" #', 'version: "1.1.0" #')
+      );
+    });
+  });
+
+  describe('pom.xml', () => {
+    it('should replace version of the project only', () => {
+      const content = [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        '<project xmlns="http://maven.apache.org/POM/4.0.0">',
+        '  <parent>',
+        '    <groupId>org.example</groupId>',
+        '    <version>3.0.0</version>',
+        '  </parent>',
+        '  <!-- <version>0.0.1</version> -->',
+        '  <modelVersion>4.0.0</modelVersion>',
+        '  <artifactId>app</artifactId>',
+        '  <version>1.0.0</version>',
+        '  <dependencies>',
+        '    <dependency>',
+        '      <version>2.0.0</version>',
+        '    </dependency>',
+        '  </dependencies>',
+        '</project>',
+        '',
+      ].join('\n');
+
+      expect(bumpVersionInContent(content, BumpFileFormat.POM, '1.1.0', true, 'pom.xml')).toBe(
+        content.replace('<version>1.0.0</version>', '<version>1.1.0</version>')
+      );
+    });
+
+    it('should replace pre-release version with Maven version', () => {
+      const content = '<project>\n  <version>1.0.0</version>\n</project>\n';
+
+      expect(bumpVersionInContent(content, BumpFileFormat.POM, '1.2.0-abc1234', false, 'pom.xml')).toBe(
+        '<project>\n  <version>1.2.0-SNAPSHOT</version>\n</project>\n'
+      );
+      expect(bumpVersionInContent(content, BumpFileFormat.POM, '1.2.0-rc.1', false, 'pom.xml')).toBe(
+        '<project>\n  <version>1.2.0-rc.1</version>\n</project>\n'
+      );
+    });
+
+    it('should throw when project inherits version of parent', () => {
+      const content = '<project>\n  <parent>\n    <version>3.0.0</version>\n  </parent>\n</project>\n';
+
+      expect(() => bumpVersionInContent(content, BumpFileFormat.POM, '1.1.0', true, 'pom.xml')).toThrow('No version field found in pom.xml');
+    });
+  });
+
+  describe('text', () => {
+    it('should replace content keeping trailing newline', () => {
+      expect(bumpVersionInContent('1.0.0\n', BumpFileFormat.TEXT, '1.1.0', true, 'VERSION')).toBe('1.1.0\n');
+      expect(bumpVersionInContent('1.0.0', BumpFileFormat.TEXT, '1.1.0', true, 'VERSION')).toBe('1.1.0\n');
+      expect(bumpVersionInContent('', BumpFileFormat.TEXT, '1.1.0', true, 'VERSION')).toBe('1.1.0\n');
+    });
+  });
+});
+
+
+describe('bumpVersionInFiles', () => {
+  let workingDirectory: string;
+
+  beforeEach(() => {
+    workingDirectory = mkdtempSync(join(tmpdir(), 'action-semver-'));
+  });
+
+  afterEach(() => {
+    rmSync(workingDirectory, { recursive: true, force: true });
+  });
+
+  it('should write version into files relative to working directory', async () => {
+    writeFileSync(join(workingDirectory, 'package.json'), '{\n  "version": "1.0.0"\n}\n');
+    writeFileSync(join(workingDirectory, 'VERSION'), '1.0.0\n');
+
+    const bumpedFiles = await bumpVersionInFiles(
+      [
+        { path: 'package.json', format: BumpFileFormat.PACKAGE_JSON },
+        { path: 'VERSION', format: BumpFileFormat.TEXT },
+      ],
+      '1.1.0',
+      true,
+      workingDirectory
+    );
+
+    expect(bumpedFiles).toEqual(['package.json', 'VERSION']);
+    expect(readFileSync(join(workingDirectory, 'package.json'), 'utf8')).toBe('{\n  "version": "1.1.0"\n}\n');
+    expect(readFileSync(join(workingDirectory, 'VERSION'), 'utf8')).toBe('1.1.0\n');
+  });
+
+  it('should fail for missing file', async () => {
+    await expect(bumpVersionInFiles([{ path: 'VERSION', format: BumpFileFormat.TEXT }], '1.1.0', true, workingDirectory)).rejects.toThrow('ENOENT');
+  });
+});
@@ -0,0 +1,158 @@
+import { describe, it, expect } from '@jest/globals';
+import { renderVersionFormats, toDockerTag, toMavenVersion, toNuGetVersion, toPep440Version, toPreReleaseVersion } from '../formats';
+
+
+describe('toPep440Version', () => {
+  it('should keep stable versions', () => {
+    expect(toPep440Version('1.2.3')).toBe('1.2.3');
+  });
+
+  it('should convert pre-releases of known phases', () => {
+    expect(toPep440Version('1.2.3-alpha.1')).toBe('1.2.3a1');
+    expect(toPep440Version('1.2.3-beta')).toBe('1.2.3b0');
+    expect(toPep440Version('1.2.3-rc.2')).toBe('1.2.3rc2');
+    expect(toPep440Version('1.2.3-RC3')).toBe('1.2.3rc3');
+    expect(toPep440Version('1.2.3-preview.1')).toBe('1.2.3rc1');
+  });
+
+  it('should convert dev pre-releases to development releases', () => {
+    expect(toPep440Version('1.2.3-dev.4')).toBe('1.2.3.dev4');
+    expect(toPep440Version('1.2.3-dev')).toBe('1.2.3.dev0');
+  });
+
+  it('should move remaining identifiers to local version', () => {
+    expect(toPep440Version('1.2.3-rc.1.abc1234')).toBe('1.2.3rc1+abc1234');
+  });
+
+  it('should convert other pre-releases to development releases with local version', () => {
+    expect(toPep440Version('1.2.3-abc1234')).toBe('1.2.3.dev0+abc1234');
+    expect(toPep440Version('1.2.3-feature-login.5')).toBe('1.2.3.dev0+feature.login.5');
+  });
+
+  it('should not mistake commit SHAs for pre-release phases', () => {
+    expect(toPep440Version('1.2.3-c123456')).toBe('1.2.3.dev0+c123456');
+    expect(toPep440Version('1.2.3-a123456')).toBe('1.2.3.dev0+a123456');
+    expect(toPep440Version('1.2.3-b1234567890abcdef')).toBe('1.2.3.dev0+b1234567890abcdef');
+    expect(toPep440Version('1.2.3-a1b2c3d')).toBe('1.2.3.dev0+a1b2c3d');
+  });
+
+  it('should convert build metadata to local version', () => {
+    expect(toPep440Version('1.2.3+Build.5')).toBe('1.2.3+build.5');
+    expect(toPep440Version('1.2.3-beta.1+exp.sha.5114f85')).toBe('1.2.3b1+exp.sha.5114f85');
+  });
+
+  it('should convert commit SHA suffixed with dev glue to local version', () => {
+    expect(toPep440Version('1.2.3-devabc1234')).toBe('1.2.3.dev0+abc1234');
+    expect(toPep440Version('1.2.3-develop.5')).toBe('1.2.3.dev0+develop.5');
+  });
+
+  it('should keep the order of semver in PEP 440', () => {
+    // PEP 440 orders development releases before pre-releases of the same release, a < b < rc before the release
+    expect(['1.0.0-dev.1', '1.0.0-alpha.1', '1.0.0-alpha.2', '1.0.0-beta.1', '1.0.0-rc.1', '1.0.0', '1.0.1-dev.0'].map(toPep440Version)).toEqual(
+      ['1.0.0.dev1', '1.0.0a1', '1.0.0a2', '1.0.0b1', '1.0.0rc1', '1.0.0', '1.0.1.dev0']
+    );
+  });
+
+  it('should throw for invalid version', () => {
+    expect(() => toPep440Version('1.2')).toThrow('Invalid semver version: 1.2');
+  });
+});
+
+
+describe('toPreReleaseVersion', () => {
+  it('should turn build metadata into pre-release identifiers', () => {
+    expect(toPreReleaseVersion('1.2.3+devabc1234')).toBe('1.2.3-devabc1234');
+  });
+
+  it('should keep versions with pre-release identifiers or without build metadata', () => {
+    expect(toPreReleaseVersion('1.2.3-rc.1+build.5')).toBe('1.2.3-rc.1+build.5');
+    expect(toPreReleaseVersion('1.2.3')).toBe('1.2.3');
+  });
+});
+
+
+describe('toNuGetVersion', () => {
+  it('should keep stable versions and build metadata', () => {
+    expect(toNuGetVersion('1.2.3')).toBe('1.2.3');
+    expect(toNuGetVersion('1.2.3-rc.1+build.5')).toBe('1.2.3-rc.1+build.5');
+  });
+
+  it('should keep the order of semver in NuGet', () => {
+    // NuGet compares labels case-insensitively, so semver's uppercase-first order would not hold
+    expect(['1.0.0-Alpha.2', '1.0.0-alpha.10', '1.0.0-Beta', '1.0.0-rc.1', '1.0.0'].map(toNuGetVersion)).toEqual(
+      ['1.0.0-alpha.2', '1.0.0-alpha.10', '1.0.0-beta', '1.0.0-rc.1', '1.0.0']
+    );
+  });
+});
+
+
+describe('toMavenVersion', () => {
+  it('should keep release candidates and earlier pre-releases', () => {
+    expect(toMavenVersion('1.2.3-alpha.1')).toBe('1.2.3-alpha.1');
+    expect(toMavenVersion('1.2.3-M2')).toBe('1.2.3-M2');
+    expect(toMavenVersion('1.2.3-rc.1')).toBe('1.2.3-rc.1');
+  });
+
+  it('should turn other pre-releases into snapshots', () => {
+    expect(toMavenVersion('1.2.3-abc1234')).toBe('1.2.3-SNAPSHOT');
+    expect(toMavenVersion('1.2.3-feature.4')).toBe('1.2.3-SNAPSHOT');
+  });
+
+  it('should not mistake commit SHAs for qualifiers', () => {
+    expect(toMavenVersion('1.2.3-a1b2c3d')).toBe('1.2.3-SNAPSHOT');
+    expect(toMavenVersion('1.2.3-b1c2d3e')).toBe('1.2.3-SNAPSHOT');
+    expect(toMavenVersion('1.2.3-c123456')).toBe('1.2.3-SNAPSHOT');
+  });
+
+  it('should drop build metadata', () => {
+    expect(toMavenVersion('1.2.3+build.5')).toBe('1.2.3');
+  });
+
+  it('should keep the order of semver in Maven', () => {
+    // Maven orders alpha < beta < milestone < rc < snapshot < release
+    expect(['1.0.0-alpha.1', '1.0.0-beta.2', '1.0.0-rc.1', '1.0.0-abc1234', '1.0.0'].map(toMavenVersion)).toEqual(
+      ['1.0.0-alpha.1', '1.0.0-beta.2', '1.0.0-rc.1', '1.0.0-SNAPSHOT', '1.0.0']
+    );
+  });
+});
+
+
+describe('toDockerTag', () => {
+  it('should replace plus sign', () => {
+    expect(toDockerTag('1.2.3-rc.1+build.5')).toBe('1.2.3-rc.1_build.5');
+    expect(toDockerTag('1.2.3')).toBe('1.2.3');
+  });
+
+  it('should keep tags of versions differing only in build metadata distinct', () => {
+    expect(toDockerTag('1.2.3+devabc1234')).not.toBe(toDockerTag('1.2.3-devabc1234'));
+  });
+
+  it('should limit tag length', () => {
+    expect(toDockerTag(`1.2.3-${'a'.repeat(200)}`)).toHaveLength(128);
+  });
+});
+
+
+describe('renderVersionFormats', () => {
+  it('should render stable version', () => {
+    expect(renderVersionFormats('1.2.3', true)).toEqual({ pep440: '1.2.3', nuget: '1.2.3', maven: '1.2.3', docker: '1.2.3' });
+  });
+
+  it('should render version of non-stable branch suffixed with plus glue as pre-release', () => {
+    expect(renderVersionFormats('1.2.3+devabc1234', false)).toEqual({
+      pep440: '1.2.3.dev0+abc1234',
+      nuget: '1.2.3-devabc1234',
+      maven: '1.2.3-SNAPSHOT',
+      docker: '1.2.3_devabc1234',
+    });
+  });
+
+  it('should render version of non-stable branch suffixed with commit SHA as development release and snapshot', () => {
+    expect(renderVersionFormats('1.2.3-c123456', false)).toMatchObject({ pep440: '1.2.3.dev0+c123456', maven: '1.2.3-SNAPSHOT' });
+    expect(renderVersionFormats('1.2.3-a1b2c3d', false)).toMatchObject({ pep440: '1.2.3.dev0+a1b2c3d', maven: '1.2.3-SNAPSHOT' });
+  });
+
+  it('should keep build metadata of stable version', () => {
+    expect(renderVersionFormats('1.2.3+build.5', true).pep440).toBe('1.2.3+build.5');
+  });
+});
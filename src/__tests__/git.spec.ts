@@ -0,0 +1,103 @@
+import { describe, it, expect, beforeAll, afterAll, jest } from '@jest/globals';
+import { execFileSync } from 'node:child_process';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { LocalGitClient } from '../git';
+
+// Mock @actions/core
+jest.mock('@actions/core');
+
+
+describe('LocalGitClient', () => {
+  let workingDirectory: string;
+  let client: LocalGitClient;
+  const shas: Record<string, string> = {};
+
+  const git = (...args: Array<string>): string => execFileSync('git', args, {
+    cwd: workingDirectory,
+    encoding: 'utf8',
+    env: {
+      ...process.env,
+      GIT_AUTHOR_NAME: 'Test',
+      GIT_AUTHOR_EMAIL: 'test@example.com',
+      GIT_COMMITTER_NAME: 'Test',
+      GIT_COMMITTER_EMAIL: 'test@example.com',
+    },
+  }).trim();
+
+  const commit = (name: string, message: string, file: string) => {
+    writeFileSync(join(workingDirectory, file), name);
+    git('add', file);
+    git('commit', '--quiet', '-m', message);
+    shas[name] = git('rev-parse', 'HEAD');
+  };
+
+  beforeAll(() => {
+    workingDirectory = mkdtempSync(join(tmpdir(), 'action-semver-'));
+    git('init', '--quiet', '--initial-branch=main');
+    commit('c0', 'chore: initial commit', 'README.md');
+    git('tag', 'v1.0.0');
+    commit('c1', 'feat: add login\n\nWith a form.', 'login.ts');
+    git('tag', '-a', 'v1.1.0', '-m', 'Release 1.1.0');
+    git('tag', 'v1.2.0-rc.1');
+    commit('c2', 'fix: typo', 'README.md');
+    git('checkout', '--quiet', '-b', 'develop');
+    commit('c3', 'feat!: drop support of node 18', 'package.json');
+    client = new LocalGitClient(workingDirectory);
+  });
+
+  afterAll(() => {
+    rmSync(workingDirectory, { recursive: true, force: true });
+  });
+
+  it('should get tags with commit SHAs', async () => {
+    const tags = await client.getTags();
+
+    expect(tags).toEqual(expect.arrayContaining([
+      { name: 'v1.0.0', sha: shas.c0 },
+      { name: 'v1.1.0', sha: shas.c1 },
+      { name: 'v1.2.0-rc.1', sha: shas.c1 },
+    ]));
+    expect(tags).toHaveLength(3);
+  });
+
+  it('should treat highest stable version tag as latest release', async () => {
+    expect(await client.getLatestVersionTag()).toBe('v1.1.0');
+    expect(await client.getLatestReleaseTag()).toBe('v1.1.0');
+    expect(await client.getReleaseTagNames()).toEqual(expect.arrayContaining(['v1.0.0', 'v1.1.0', 'v1.2.0-rc.1']));
+  });
+
+  it('should get commits between refs from the oldest to the newest', async () => {
+    const commits = await client.getListOfCommitsBetween('v1.0.0', 'refs/heads/develop');
+
+    expect(commits).toEqual([
+      { sha: shas.c1, message: 'feat: add login\n\nWith a form.' },
+      { sha: shas.c2, message: 'fix: typo' },
+      { sha: shas.c3, message: 'feat!: drop support of node 18' },
+    ]);
+  });
+
+  it('should get commits with changed files', async () => {
+    const commits = await client.getListOfCommitsBetween('v1.1.0', 'refs/heads/develop', true);
+
+    expect(commits.map(commit => commit.files)).toEqual([['README.md'], ['package.json']]);
+  });
+
+  it('should get files changed by commit', async () => {
+    expect(await client.getListOfFilesChangedBy(shas.c1)).toEqual(['login.ts']);
+  });
+
+  it('should resolve refs to commit SHAs', async () => {
+    expect(await client.getCommitSha('refs/heads/main')).toBe(shas.c2);
+    expect(await client.getCommitSha('v1.1.0')).toBe(shas.c1);
+    await expect(client.getCommitSha('refs/heads/missing')).rejects.toThrow(
+      'Git reference refs/heads/missing does not exist in the working copy'
+    );
+  });
+
+  it('should get checked out branch and default branch', async () => {
+    expect(await client.getHeadRef()).toBe('refs/heads/develop');
+    expect(await client.getDefaultBranchName()).toBe('main');
+  });
+});
@@ -0,0 +1,121 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, jest } from '@jest/globals';
+import { GiteaClient } from '../gitea';
+import { MockHttpServer } from './mockHttpServer';
+
+// Mock @actions/core
+jest.mock('@actions/core');
+
+
+describe('GiteaClient', () => {
+  const server = new MockHttpServer();
+  const repoPath = '/api/v1/repos/owner/repo';
+  let client: GiteaClient;
+
+  beforeAll(async () => {
+    await server.start();
+  });
+
+  afterAll(async () => {
+    await server.stop();
+  });
+
+  beforeEach(() => {
+    server.reset();
+    client = new GiteaClient('gitea-token', 'owner/repo', `${server.url}/api/v1/`);
+  });
+
+  it('should authenticate with token', async () => {
+    server.on(repoPath, { body: { default_branch: 'develop' } });
+
+    expect(await client.getDefaultBranchName()).toBe('develop');
+    expect(server.requests[0].headers.authorization).toBe('token gitea-token');
+  });
+
+  it('should not send token when empty', async () => {
+    server.on(repoPath, { body: { default_branch: 'main' } });
+
+    await new GiteaClient('', 'owner/repo', server.url).getDefaultBranchName();
+
+    expect(server.requests[0].headers.authorization).toBeUndefined();
+  });
+
+  it('should get latest release tag', async () => {
+    server.on(`${repoPath}/releases/latest`, { body: { tag_name: 'v1.2.3' } });
+
+    expect(await client.getLatestReleaseTag()).toBe('v1.2.3');
+  });
+
+  it('should return null when there is no release', async () => {
+    expect(await client.getLatestReleaseTag()).toBeNull();
+  });
+
+  it('should throw on other errors', async () => {
+    server.on(`${repoPath}/releases/latest`, { status: 500, body: { message: 'Internal Server Error' } });
+
+    await expect(client.getLatestReleaseTag()).rejects.toMatchObject({ status: 500 });
+  });
+
+  it('should get tag names of published releases from all pages', async () => {
+    const releases = Array.from({ length: 60 }, (_, i) => ({ tag_name: `v1.0.${i}`, draft: i === 1, prerelease: i === 2 }));
+    server.on(`${repoPath}/releases`, url => {
+      const page = Number(url.searchParams.get('page'));
+      const limit = Number(url.searchParams.get('limit'));
+      return { body: releases.slice((page - 1) * limit, page * limit) };
+    });
+
+    const tagNames = await client.getReleaseTagNames();
+
+    expect(tagNames).toHaveLength(58);
+    expect(tagNames).not.toContain('v1.0.1');
+    expect(tagNames).not.toContain('v1.0.2');
+    expect(server.requests.map(request => request.url)).toEqual([
+      '/api/v1/repos/owner/repo/releases?page=1&limit=50',
+      '/api/v1/repos/owner/repo/releases?page=2&limit=50',
+    ]);
+  });
+
+  it('should get tags with commit SHAs and latest version tag', async () => {
+    server.on(`${repoPath}/tags`, {
+      body: [
+        { name: 'v1.1.0', commit: { sha: 'bbb' } },
+        { name: 'v2.0.0-rc.1', commit: { sha: 'ccc' } },
+        { name: 'v1.0.0', commit: { sha: 'aaa' } },
+      ],
+    });
+
+    expect(await client.getTags()).toEqual([
+      { name: 'v1.1.0', sha: 'bbb' },
+      { name: 'v2.0.0-rc.1', sha: 'ccc' },
+      { name: 'v1.0.0', sha: 'aaa' },
+    ]);
+    expect(await client.getLatestVersionTag()).toBe('v1.1.0');
+  });
+
+  it('should compare refs and fetch changed files', async () => {
+    server.on(`${repoPath}/compare/v1.0.0...main`, {
+      body: {
+        total_commits: 2,
+        commits: [
+          { sha: 'aaa', commit: { message: 'feat: add login' } },
+          { sha: 'bbb', commit: { message: 'fix: typo' } },
+        ],
+      },
+    });
+    server.on(`${repoPath}/git/commits/aaa`, { body: { files: [{ filename: 'src/login.ts' }] } });
+    server.on(`${repoPath}/git/commits/bbb`, { body: { files: [{ filename: 'README.md' }] } });
+
+    const commits = await client.getListOfCommitsBetween('v1.0.0', 'refs/heads/main', true);
+
+    expect(commits).toEqual([
+      { sha: 'aaa', message: 'feat: add login', files: ['src/login.ts'] },
+      { sha: 'bbb', message: 'fix: typo', files: ['README.md'] },
+    ]);
+  });
+
+  it('should get commit SHA of ref', async () => {
+    server.on(`${repoPath}/commits`, { body: [{ sha: 'abc123' }] });
+
+    expect(await client.getCommitSha('refs/heads/main')).toBe('abc123');
+    expect(new URL(server.requests[0].url, server.url).searchParams.get('sha')).toBe('main');
+  });
+});
@@ -0,0 +1,203 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, jest } from '@jest/globals';
+import { GitHubClient } from '../github';
+import { MockHttpServer } from './mockHttpServer';
+
+// Mock @actions/core
+jest.mock('@actions/core');
+
+
+describe('GitHubClient', () => {
+  const server = new MockHttpServer();
+  let client: GitHubClient;
+
+  beforeAll(async () => {
+    await server.start();
+  });
+
+  afterAll(async () => {
+    await server.stop();
+  });
+
+  beforeEach(() => {
+    server.reset();
+    client = new GitHubClient('github-token', 'owner/repo', server.url);
+  });
+
+  it('should authenticate with token', async () => {
+    server.on('/repos/owner/repo', { body: { default_branch: 'develop' } });
+
+    expect(await client.getDefaultBranchName()).toBe('develop');
+    expect(server.requests[0].headers.authorization).toBe('token github-token');
+  });
+
+  it('should accept owner and repository name separately', async () => {
+    server.on('/repos/owner/repo', { body: { default_branch: 'main' } });
+
+    expect(await new GitHubClient('github-token', 'owner', 'repo', server.url).getDefaultBranchName()).toBe('main');
+  });
+
+  it('should get latest release tag', async () => {
+    server.on('/repos/owner/repo/releases/latest', { body: { tag_name: 'v1.2.3' } });
+
+    expect(await client.getLatestReleaseTag()).toBe('v1.2.3');
+  });
+
+  it('should return null when there is no release', async () => {
+    expect(await client.getLatestReleaseTag()).toBeNull();
+  });
+
+  it('should get tags with commit SHAs and latest version tag', async () => {
+    server.on('/repos/owner/repo/tags', {
+      body: [
+        { name: 'v1.1.0', commit: { sha: 'bbb' } },
+        { name: 'v2.0.0-rc.1', commit: { sha: 'ccc' } },
+        { name: 'v1.0.0', commit: { sha: 'aaa' } },
+      ],
+    });
+
+    expect(await client.getTags()).toEqual([
+      { name: 'v1.1.0', sha: 'bbb' },
+      { name: 'v2.0.0-rc.1', sha: 'ccc' },
+      { name: 'v1.0.0', sha: 'aaa' },
+    ]);
+    expect(await client.getLatestVersionTag()).toBe('v1.1.0');
+  });
+
+  describe('getListOfCommitsBetween', () => {
+    const comparePath = '/repos/owner/repo/compare/v1.0.0...refs/heads/main';
+
+    const comparisonPages = (comparedCommits: Array<{ sha: string, commit: { message: string } }>) => (url: URL) => {
+      const page = Number(url.searchParams.get('page'));
+      const perPage = Number(url.searchParams.get('per_page'));
+      return {
+        body: {
+          total_commits: comparedCommits.length,
+          merge_base_commit: { sha: 'base' },
+          commits: comparedCommits.slice((page - 1) * perPage, page * perPage),
+        },
+      };
+    };
+
+    it('should page comparison fetching every commit once', async () => {
+      const comparedCommits = Array.from({ length: 200 }, (_, i) => ({ sha: `c${i}`, commit: { message: `fix: ${i}` } }));
+      server.on(comparePath, comparisonPages(comparedCommits));
+
+      const commits = await client.getListOfCommitsBetween('v1.0.0', 'refs/heads/main');
+
+      expect(commits.map(commit => commit.sha)).toEqual(comparedCommits.map(commit => commit.sha));
+      expect(server.requests.map(request => request.url)).toEqual([
+        '/repos/owner/repo/compare/v1.0.0...refs%2Fheads%2Fmain?page=1&per_page=100',
+        '/repos/owner/repo/compare/v1.0.0...refs%2Fheads%2Fmain?page=2&per_page=100',
+      ]);
+    });
+
+    it('should page comparison beyond 250 commits fetching every commit once', async () => {
+      const comparedCommits = Array.from({ length: 260 }, (_, i) => ({ sha: `c${i}`, commit: { message: `fix: ${i}` } }));
+      server.on(comparePath, comparisonPages(comparedCommits));
+
+      const commits = await client.getListOfCommitsBetween('v1.0.0', 'refs/heads/main');
+      const shas = commits.map(commit => commit.sha);
+
+      expect(shas).toEqual(comparedCommits.map(commit => commit.sha));
+      expect(new Set(shas).size).toBe(260);
+      expect(server.requests.map(request => request.url)).toEqual([
+        '/repos/owner/repo/compare/v1.0.0...refs%2Fheads%2Fmain?page=1&per_page=100',
+        '/repos/owner/repo/compare/v1.0.0...refs%2Fheads%2Fmain?page=2&per_page=100',
+        '/repos/owner/repo/compare/v1.0.0...refs%2Fheads%2Fmain?page=3&per_page=100',
+      ]);
+    });
+
+    it('should fetch commits of merged branch older than merge base once', async () => {
+      // 'side' was branched off before the merge base and merged afterwards, so it is older than the merge base
+      server.on(comparePath, comparisonPages([
+        { sha: 'side', commit: { message: 'feat: side' } },
+        { sha: 'ccc', commit: { message: 'fix: ccc' } },
+        { sha: 'merge', commit: { message: "Merge branch 'side'" } },
+      ]));
+
+      const commits = await client.getListOfCommitsBetween('v1.0.0', 'refs/heads/main');
+
+      expect(commits).toEqual([
+        { sha: 'side', message: 'feat: side' },
+        { sha: 'ccc', message: 'fix: ccc' },
+        { sha: 'merge', message: "Merge branch 'side'" },
+      ]);
+      expect(server.requests).toHaveLength(1);
+    });
+
+    it('should fetch comparison once without commits', async () => {
+      server.on(comparePath, comparisonPages([]));
+
+      expect(await client.getListOfCommitsBetween('v1.0.0', 'refs/heads/main')).toEqual([]);
+      expect(server.requests).toHaveLength(1);
+    });
+
+    it('should return no commits when reference does not exist', async () => {
+      expect(await client.getListOfCommitsBetween('v1.0.0', 'refs/heads/main')).toEqual([]);
+    });
+  });
+
+  it('should get commits of pull request', async () => {
+    server.on('/repos/owner/repo/pulls/7/commits', {
+      body: [
+        { sha: 'aaa', commit: { message: 'feat: a' } },
+        { sha: 'bbb', commit: { message: 'wip' } },
+      ],
+    });
+
+    expect(await client.getPullRequestCommits(7)).toEqual([
+      { sha: 'aaa', message: 'feat: a' },
+      { sha: 'bbb', message: 'wip' },
+    ]);
+  });
+
+  it('should get, create and update comments of pull request', async () => {
+    server.on('/repos/owner/repo/issues/7/comments', {
+      body: [{ id: 1, body: 'LGTM', html_url: 'https://github.com/owner/repo/pull/7#issuecomment-1' }],
+    });
+    server.on('/repos/owner/repo/issues/7/comments', (url, body) => ({
+      status: 201,
+      body: { id: 2, body: body.body, html_url: 'https://github.com/owner/repo/pull/7#issuecomment-2' },
+    }), 'POST');
+    server.on('/repos/owner/repo/issues/comments/2', (url, body) => ({
+      body: { id: 2, body: body.body, html_url: 'https://github.com/owner/repo/pull/7#issuecomment-2' },
+    }), 'PATCH');
+
+    expect(await client.getIssueComments(7)).toEqual([{ id: 1, body: 'LGTM', url: 'https://github.com/owner/repo/pull/7#issuecomment-1' }]);
+    expect(await client.createIssueComment(7, 'first')).toEqual({ id: 2, body: 'first', url: 'https://github.com/owner/repo/pull/7#issuecomment-2' });
+    expect(await client.updateIssueComment(2, 'second')).toEqual({ id: 2, body: 'second', url: 'https://github.com/owner/repo/pull/7#issuecomment-2' });
+    expect(server.requests.map(request => request.method)).toEqual(['GET', 'POST', 'PATCH']);
+  });
+
+  it('should get merged pull requests of commits with one request per 100 commits', async () => {
+    const shas = Array.from({ length: 150 }, (_, i) => `c${i}`);
+    server.on('/graphql', (_url, body) => ({
+      body: {
+        data: {
+          repository: Object.fromEntries(Object.keys(body.variables).filter(name => name.startsWith('sha')).map(name => [
+            `c${name.substring('sha'.length)}`,
+            body.variables[name] === 'c0' ? {
+              associatedPullRequests: {
+                nodes: [
+                  { number: 7, title: 'feat: add login', merged: true, mergeCommit: { oid: 'def' }, labels: { nodes: [{ name: 'semver:minor' }] } },
+                  { number: 8, title: 'wip', merged: false, mergeCommit: null, labels: { nodes: [] } },
+                ],
+              },
+            } : { associatedPullRequests: { nodes: [] } },
+          ])),
+        },
+      },
+    }), 'POST');
+
+    const pullRequestsOfCommits = await client.getMergedPullRequestsOfCommits(shas);
+
+    expect(pullRequestsOfCommits.get('c0')).toEqual([
+      { number: 7, title: 'feat: add login', labels: ['semver:minor'], mergeCommitSha: 'def' },
+    ]);
+    expect(pullRequestsOfCommits.get('c149')).toEqual([]);
+    expect(server.requests).toHaveLength(2);
+    expect(server.requests[0].body.variables.sha99).toBe('c99');
+    expect(server.requests[1].body.variables).toMatchObject({ owner: 'owner', repo: 'repo', sha0: 'c100', sha49: 'c149' });
+    expect(server.requests[1].body.variables.sha50).toBeUndefined();
+  });
+});
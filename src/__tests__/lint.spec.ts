@@ -0,0 +1,189 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import * as core from '@actions/core';
+import { GitHubClient } from '../github';
+import {
+  LINT_COMMENT_MARKER,
+  formatLintReport,
+  getConventionalCommitsError,
+  lintPullRequest,
+  renderLintComment,
+  reportLintResult,
+  writeLintComment
+} from '../lint';
+import { BumpLevel, LintReport, NotConventionalCommitsReaction, VersionResult } from '../types';
+
+// Mock @actions/core
+jest.mock('@actions/core');
+const mockCore = core as jest.Mocked<typeof core>;
+
+
+describe('getConventionalCommitsError', () => {
+  it('should return null for conventional commit', () => {
+    expect(getConventionalCommitsError('feat(api): add endpoint\n\nBody')).toBeNull();
+  });
+
+  it('should return parser error for other messages', () => {
+    expect(getConventionalCommitsError('Update README')).toEqual(expect.any(String));
+  });
+});
+
+
+describe('lintPullRequest', () => {
+  it('should report all messages not in conventional-commits format', () => {
+    const report = lintPullRequest('Add login', [
+      { sha: 'aaa1111111', message: 'feat: add login' },
+      { sha: 'bbb2222222', message: 'wip\n\nmore' },
+      { sha: 'ccc3333333', message: "Merge branch 'main' into feature" },
+      { sha: 'ddd4444444', message: 'fix typo' },
+    ]);
+
+    expect(report.checked).toBe(4);
+    expect(report.issues.map(issue => [issue.sha, issue.subject])).toEqual([
+      [null, 'Add login'],
+      ['bbb2222222', 'wip'],
+      ['ddd4444444', 'fix typo'],
+    ]);
+  });
+
+  it('should report no issues for conventional title and commits', () => {
+    expect(lintPullRequest('feat: add login', [{ sha: 'aaa1111111', message: 'feat: add login' }])).toEqual({ checked: 2, issues: [] });
+  });
+});
+
+
+describe('reportLintResult', () => {
+  const report: LintReport = {
+    checked: 3,
+    issues: [
+      { sha: null, subject: 'Add login', error: 'unexpected token' },
+      { sha: 'bbb2222222', subject: 'wip', error: 'unexpected token' },
+    ],
+  };
+  const message = [
+    '2 of 3 messages are not in conventional-commits format:',
+    "- Pull request title: 'Add login' (unexpected token)",
+    "- Commit bbb2222: 'wip' (unexpected token)",
+  ].join('\n');
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should fail with one aggregated message on error', () => {
+    reportLintResult(report, NotConventionalCommitsReaction.ERROR);
+
+    expect(mockCore.setFailed).toHaveBeenCalledTimes(1);
+    expect(mockCore.setFailed).toHaveBeenCalledWith(message);
+  });
+
+  it('should warn with one aggregated message on warn', () => {
+    reportLintResult(report, NotConventionalCommitsReaction.WARN);
+
+    expect(mockCore.warning).toHaveBeenCalledWith(message);
+    expect(mockCore.setFailed).not.toHaveBeenCalled();
+  });
+
+  it('should only log on ignore', () => {
+    reportLintResult(report, NotConventionalCommitsReaction.IGNORE);
+
+    expect(mockCore.info).toHaveBeenCalledWith(message);
+    expect(mockCore.warning).not.toHaveBeenCalled();
+  });
+
+  it('should not fail without issues', () => {
+    reportLintResult({ checked: 2, issues: [] }, NotConventionalCommitsReaction.ERROR);
+
+    expect(mockCore.setFailed).not.toHaveBeenCalled();
+    expect(mockCore.info).toHaveBeenCalledWith(formatLintReport({ checked: 2, issues: [] }));
+  });
+});
+
+
+describe('renderLintComment', () => {
+  const trigger = { sha: 'aaa1111111', subject: 'feat: add <Login>', type: 'feat', breaking: false, bumpLevel: BumpLevel.MINOR };
+  const prediction: VersionResult = {
+    latestReleaseTag: 'v1.2.3',
+    currentVersion: '1.2.3',
+    newVersion: '1.3.0',
+    newMajorVersion: 1,
+    newTag: 'v1.3.0',
+    releaseNeeded: true,
+    changelog: '',
+    bumpDecision: { bumpType: 'minor', considered: [trigger], ignored: [], nonConventional: [], trigger },
+    stable: true,
+    formattedVersions: null,
+  };
+
+  it('should render issues and predicted version', () => {
+    const body = renderLintComment({ checked: 2, issues: [{ sha: null, subject: 'Add | login', error: 'unexpected token' }] }, prediction);
+
+    expect(body.startsWith(LINT_COMMENT_MARKER)).toBe(true);
+    expect(body).toContain('❌ 1 of 2 messages are not in conventional-commits format:');
+    expect(body).toContain('| Title | Add \\| login | unexpected token |');
+    expect(body).toContain(
+      'Merging this pull request releases <code>1.3.0</code> (minor bump from <code>1.2.3</code>, triggered by <code>aaa1111</code> feat: add &lt;Login&gt;).'
+    );
+  });
+
+  it('should render when no release is needed', () => {
+    const body = renderLintComment({ checked: 1, issues: [] }, { ...prediction, releaseNeeded: false, newVersion: '1.2.3' });
+
+    expect(body).toContain('✅ All 1 messages are in conventional-commits format.');
+    expect(body).toContain('Merging this pull request does not release a new version, the current version stays <code>1.2.3</code>.');
+  });
+
+  it('should render released packages', () => {
+    const body = renderLintComment({ checked: 1, issues: [] }, {
+      releaseNeeded: true,
+      stable: true,
+      packages: {
+        core: { latestReleaseTag: 'core@1.0.0', currentVersion: '1.0.0', newVersion: '1.0.0', newTag: 'core@1.0.0', bumpType: '', releaseNeeded: false, changelog: '' },
+        api: { latestReleaseTag: '', currentVersion: '', newVersion: '0.1.0', newTag: 'api@0.1.0', bumpType: '', releaseNeeded: true, changelog: '' },
+      },
+    });
+
+    expect(body).toContain('| api | - | <code>0.1.0</code> | none |');
+    expect(body).not.toContain('| core |');
+  });
+
+  it('should render why version could not be predicted', () => {
+    expect(renderLintComment({ checked: 1, issues: [] }, new Error('Invalid tag pattern: <x>'))).toContain(
+      'The next version could not be predicted: Invalid tag pattern: &lt;x&gt;'
+    );
+  });
+});
+
+
+describe('writeLintComment', () => {
+  let githubClient: jest.Mocked<GitHubClient>;
+
+  beforeEach(() => {
+    githubClient = {
+      getIssueComments: jest.fn(),
+      createIssueComment: jest.fn(),
+      updateIssueComment: jest.fn(),
+    } as any;
+  });
+
+  it('should update existing comment of the action', async () => {
+    githubClient.getIssueComments.mockResolvedValue([
+      { id: 1, body: 'LGTM', url: 'https://github.com/owner/repo/pull/7#issuecomment-1' },
+      { id: 2, body: `${LINT_COMMENT_MARKER}\nold`, url: 'https://github.com/owner/repo/pull/7#issuecomment-2' },
+    ]);
+    githubClient.updateIssueComment.mockResolvedValue({ id: 2, body: 'new', url: 'https://github.com/owner/repo/pull/7#issuecomment-2' });
+
+    await writeLintComment(githubClient, 7, 'new');
+
+    expect(githubClient.updateIssueComment).toHaveBeenCalledWith(2, 'new');
+    expect(githubClient.createIssueComment).not.toHaveBeenCalled();
+  });
+
+  it('should create comment when there is none yet', async () => {
+    githubClient.getIssueComments.mockResolvedValue([]);
+    githubClient.createIssueComment.mockResolvedValue({ id: 3, body: 'new', url: 'https://github.com/owner/repo/pull/7#issuecomment-3' });
+
+    await writeLintComment(githubClient, 7, 'new');
+
+    expect(githubClient.createIssueComment).toHaveBeenCalledWith(7, 'new');
+  });
+});
@@ -1,27 +1,15 @@
 import { describe, it, expect, beforeEach, jest } from '@jest/globals';
 import * as core from '@actions/core';
-import { context } from '@actions/github';
-import { noteHasBreakingChange, getBumpTypeFromCommits, suffixWithPreRelease } from '../logic';
-import { Commit } from '../github/types';
-import { NotConventionalCommitsReaction } from "../types";
+import * as cc from '@conventional-commits/parser';
+import * as semver from 'semver';
+import { noteHasBreakingChange, messageHasBreakingChange, filterCommitsByPaths, filterCommitsByScopes, getScopesOfMessage, matchesAnyScopePattern, getBumpTypeFromCommits, getBumpLevelForType, getBumpLevelFromLabels, squashCommitsOfPullRequests, maxBumpLevel, getInitialDevelopmentBumpType, getPreReleaseIdentifierForBranch, getBranchNameFromRef, getBranchConfigForRef, getHighestVersionTagWithinLine, isVersionWithinLine, renderPreReleaseTemplate, sanitizeIdentifier, suffixWithPreRelease, suffixWithPreReleaseCounter, validatePreReleaseTemplate, DEFAULT_BUMP_MAPPING } from '../logic';
+import { Commit, PullRequest } from '../github/types';
+import { BumpLevel, NotConventionalCommitsReaction } from "../types";
 
 // Mock @actions/core
 jest.mock('@actions/core');
 const mockedCore = jest.mocked(core);
 
-// Mock @actions/github context
-jest.mock('@actions/github', () => {
-  const originalModule = jest.requireActual('@actions/github') as typeof import('@actions/github');
-  return {
-    __esModule: true,
-    ...originalModule,
-    context: {
-      ...originalModule.context,
-      sha: 'abcdef1234567890',
-    },
-  };
-});
-
 
 describe('noteHasBreakingChange', () => {
   it('should return true for note with title BREAKING CHANGE', () => {
@@ -29,6 +17,11 @@ describe('noteHasBreakingChange', () => {
     expect(noteHasBreakingChange(note)).toBe(true);
   });
 
+  it('should return true for note with title BREAKING-CHANGE', () => {
+    const note = { title: 'BREAKING-CHANGE', text: 'Some breaking change description' };
+    expect(noteHasBreakingChange(note)).toBe(true);
+  });
+
   it('should return false for note with different title', () => {
     const note = { title: 'Some other title', text: 'Some text' };
     expect(noteHasBreakingChange(note)).toBe(false);
@@ -36,21 +29,169 @@ describe('noteHasBreakingChange', () => {
 });
 
 
+describe('messageHasBreakingChange', () => {
+  it('should detect ! marker in header', () => {
+    expect(messageHasBreakingChange(cc.parser('feat!: drop node 18'))).toBe(true);
+  });
+
+  it('should detect ! marker in header with scope', () => {
+    expect(messageHasBreakingChange(cc.parser('feat(runtime)!: drop node 18'))).toBe(true);
+  });
+
+  it('should detect BREAKING CHANGE footer', () => {
+    expect(messageHasBreakingChange(cc.parser('feat: drop node 18\n\nBREAKING CHANGE: node 18 is no longer supported'))).toBe(true);
+  });
+
+  it('should detect BREAKING-CHANGE footer', () => {
+    expect(messageHasBreakingChange(cc.parser('feat: drop node 18\n\nBREAKING-CHANGE: node 18 is no longer supported'))).toBe(true);
+  });
+
+  it('should detect breaking change footer after other footers', () => {
+    expect(messageHasBreakingChange(cc.parser('fix: drop node 18\n\nRefs: #123\nBREAKING CHANGE: node 18 is no longer supported'))).toBe(true);
+  });
+
+  it('should return false without breaking change marker', () => {
+    expect(messageHasBreakingChange(cc.parser('feat: add node 24 support\n\nSome body mentioning BREAKING CHANGE\n\nRefs: #123'))).toBe(false);
+  });
+});
+
+
+describe('filterCommitsByPaths', () => {
+  const commits: Commit[] = [
+    { sha: 'abc123', message: 'feat(api): new endpoint', files: ['packages/api/src/index.ts', 'package-lock.json'] },
+    { sha: 'def456', message: 'fix(web): fix layout', files: ['packages/web/src/App.tsx'] },
+    { sha: 'ghi789', message: 'docs(api): update docs', files: ['packages/api/README.md'] },
+    { sha: 'jkl012', message: 'chore: update lockfile', files: ['package-lock.json'] },
+  ];
+
+  it('should keep commits changing files matching the paths', () => {
+    const result = filterCommitsByPaths(commits, ['packages/api/**']);
+    expect(result.map(commit => commit.sha)).toEqual(['abc123', 'ghi789']);
+  });
+
+  it('should support multiple paths and directory patterns', () => {
+    const result = filterCommitsByPaths(commits, ['packages/web/', 'package-lock.json']);
+    expect(result.map(commit => commit.sha)).toEqual(['abc123', 'def456', 'jkl012']);
+  });
+
+  it('should exclude files matching negated patterns', () => {
+    const result = filterCommitsByPaths(commits, ['packages/api/**', '!**/*.md']);
+    expect(result.map(commit => commit.sha)).toEqual(['abc123']);
+  });
+
+  it('should keep commits without list of changed files', () => {
+    const result = filterCommitsByPaths([{ sha: 'abc123', message: 'feat: new feature' }], ['packages/api/**']);
+    expect(result.map(commit => commit.sha)).toEqual(['abc123']);
+  });
+});
+
+
+describe('getScopesOfMessage', () => {
+  it('should return lowercased scopes', () => {
+    expect(getScopesOfMessage('fix(API): fix endpoint')).toEqual(['api']);
+    expect(getScopesOfMessage('feat(api, web)!: new login')).toEqual(['api', 'web']);
+  });
+
+  it('should return empty list for message without scope', () => {
+    expect(getScopesOfMessage('fix: fix endpoint')).toEqual([]);
+  });
+
+  it('should return null for message not in conventional-commits format', () => {
+    expect(getScopesOfMessage('Fixed endpoint')).toBeNull();
+  });
+});
+
+
+describe('matchesAnyScopePattern', () => {
+  it('should match scope globs case insensitively', () => {
+    expect(matchesAnyScopePattern('api-auth', ['web', 'API*'])).toBe(true);
+    expect(matchesAnyScopePattern('web', ['api*'])).toBe(false);
+    expect(matchesAnyScopePattern('web', [])).toBe(false);
+  });
+});
+
+
+describe('filterCommitsByScopes', () => {
+  const commits: Commit[] = [
+    { sha: 'abc123', message: 'feat(api): new endpoint' },
+    { sha: 'def456', message: 'fix(web): fix layout' },
+    { sha: 'ghi789', message: 'chore(deps-dev): bump jest' },
+    { sha: 'jkl012', message: 'fix: fix typo' },
+    { sha: 'mno345', message: 'Updated dependencies' },
+    { sha: 'pqr678', message: 'Merge pull request #1 from user/branch' },
+  ];
+
+  it('should drop commits with excluded scopes', () => {
+    const result = filterCommitsByScopes(commits, ['!deps-dev']);
+    expect(result.map(commit => commit.sha)).toEqual(['abc123', 'def456', 'jkl012', 'mno345', 'pqr678']);
+  });
+
+  it('should keep only commits with included scopes', () => {
+    const result = filterCommitsByScopes(commits, ['api']);
+    expect(result.map(commit => commit.sha)).toEqual(['abc123', 'mno345', 'pqr678']);
+  });
+
+  it('should keep commits with any scope not excluded', () => {
+    const result = filterCommitsByScopes([
+      { sha: 'abc123', message: 'chore(deps, deps-dev): bump dependencies' },
+      { sha: 'def456', message: 'chore(deps-dev): bump jest' },
+    ], ['!deps-dev']);
+    expect(result.map(commit => commit.sha)).toEqual(['abc123']);
+  });
+
+  it('should not count excluded scopes as included', () => {
+    const result = filterCommitsByScopes([
+      { sha: 'abc123', message: 'fix(api-internal): fix cache' },
+      { sha: 'def456', message: 'fix(api): fix endpoint' },
+    ], ['api*', '!api-internal']);
+    expect(result.map(commit => commit.sha)).toEqual(['def456']);
+  });
+});
+
+
+describe('getBumpLevelForType', () => {
+  it('should return level of the mapped type', () => {
+    expect(getBumpLevelForType('feat', DEFAULT_BUMP_MAPPING)).toBe(BumpLevel.MINOR);
+  });
+
+  it('should be case insensitive', () => {
+    expect(getBumpLevelForType('Feature', DEFAULT_BUMP_MAPPING)).toBe(BumpLevel.MINOR);
+  });
+
+  it('should fall back to the wildcard entry', () => {
+    expect(getBumpLevelForType('docs', { '*': BumpLevel.NONE })).toBe(BumpLevel.NONE);
+  });
+
+  it('should fall back to patch without wildcard entry', () => {
+    expect(getBumpLevelForType('docs', { feat: BumpLevel.MINOR })).toBe(BumpLevel.PATCH);
+  });
+});
+
+
+describe('maxBumpLevel', () => {
+  it('should return the higher bump level', () => {
+    expect(maxBumpLevel(BumpLevel.NONE, BumpLevel.PATCH)).toBe(BumpLevel.PATCH);
+    expect(maxBumpLevel(BumpLevel.MINOR, BumpLevel.PATCH)).toBe(BumpLevel.MINOR);
+    expect(maxBumpLevel(BumpLevel.MINOR, BumpLevel.MAJOR)).toBe(BumpLevel.MAJOR);
+  });
+});
+
+
 describe('getBumpTypeFromCommits', () => {
   beforeEach(() => {
     jest.clearAllMocks();
   });
 
   describe('when given an empty array', () => {
-    it('should return patch as default', () => {
+    it('should return null as no release is needed', () => {
       const commits: Commit[] = [];
       const result = getBumpTypeFromCommits(commits);
-      expect(result).toBe('patch');
+      expect(result.bumpType).toBe(null);
     });
   });
 
   describe('when given merge commits', () => {
-    it('should ignore merge commits and return patch', () => {
+    it('should ignore merge commits and return null', () => {
       const commits: Commit[] = [
         { sha: 'abc123', message: 'Merge branch feature into main' },
         { sha: 'def456', message: 'Merge pull request #123 from user/branch' },
@@ -58,7 +199,7 @@ describe('getBumpTypeFromCommits', () => {
       
       const result = getBumpTypeFromCommits(commits);
       
-      expect(result).toBe('patch');
+      expect(result.bumpType).toBe(null);
       expect(mockedCore.debug).toHaveBeenCalledWith(
         "Ignoring commit message: 'Merge branch feature into main'"
       );
@@ -76,7 +217,7 @@ describe('getBumpTypeFromCommits', () => {
       ];
       
       const result = getBumpTypeFromCommits(commits);
-      expect(result).toBe('minor');
+      expect(result.bumpType).toBe('minor');
     });
 
     it('should handle fix commits (patch bump)', () => {
@@ -86,7 +227,7 @@ describe('getBumpTypeFromCommits', () => {
       ];
       
       const result = getBumpTypeFromCommits(commits);
-      expect(result).toBe('patch');
+      expect(result.bumpType).toBe('patch');
     });
 
     it('should handle major changes without footer message (major bump)', () => {
@@ -102,7 +243,7 @@ describe('getBumpTypeFromCommits', () => {
       ];
       
       const result = getBumpTypeFromCommits(commits);
-      expect(result).toBe('major');
+      expect(result.bumpType).toBe('major');
     });
 
     it('should handle breaking changes with footer message (major bump)', () => {
@@ -118,7 +259,34 @@ describe('getBumpTypeFromCommits', () => {
       ];
       
       const result = getBumpTypeFromCommits(commits);
-      expect(result).toBe('major');
+      expect(result.bumpType).toBe('major');
+    });
+
+    it('should handle ! marker on non-feature types (major bump)', () => {
+      const commits: Commit[] = [
+        { sha: 'abc123', message: 'chore(deps)!: drop node 18' },
+      ];
+
+      const result = getBumpTypeFromCommits(commits);
+      expect(result.bumpType).toBe('major');
+    });
+
+    it('should handle BREAKING-CHANGE footer token (major bump)', () => {
+      const commits: Commit[] = [
+        { sha: 'abc123', message: 'fix: update user model\n\nBREAKING-CHANGE: user id is now a string' },
+      ];
+
+      const result = getBumpTypeFromCommits(commits);
+      expect(result.bumpType).toBe('major');
+    });
+
+    it('should handle breaking changes on types mapped to none (major bump)', () => {
+      const commits: Commit[] = [
+        { sha: 'abc123', message: 'docs!: remove documentation of deprecated API' },
+      ];
+
+      const result = getBumpTypeFromCommits(commits, NotConventionalCommitsReaction.WARN, { '*': BumpLevel.NONE });
+      expect(result.bumpType).toBe('major');
     });
 
     it('should handle various conventional commit types', () => {
@@ -133,7 +301,58 @@ describe('getBumpTypeFromCommits', () => {
       ];
       
       const result = getBumpTypeFromCommits(commits);
-      expect(result).toBe('patch');
+      expect(result.bumpType).toBe('patch');
+    });
+  });
+
+  describe('when given custom bump mapping', () => {
+    const bumpMapping = {
+      ...DEFAULT_BUMP_MAPPING,
+      perf: BumpLevel.MINOR,
+      security: BumpLevel.MAJOR,
+      docs: BumpLevel.NONE,
+    };
+
+    it('should use mapped level for custom types', () => {
+      const commits: Commit[] = [
+        { sha: 'abc123', message: 'fix: resolve memory leak in cache' },
+        { sha: 'def456', message: 'perf: optimize database queries' },
+      ];
+
+      const result = getBumpTypeFromCommits(commits, NotConventionalCommitsReaction.WARN, bumpMapping);
+      expect(result.bumpType).toBe('minor');
+    });
+
+    it('should support types mapped to major', () => {
+      const commits: Commit[] = [
+        { sha: 'abc123', message: 'feat: add new user authentication' },
+        { sha: 'def456', message: 'security: rotate signing keys' },
+      ];
+
+      const result = getBumpTypeFromCommits(commits, NotConventionalCommitsReaction.WARN, bumpMapping);
+      expect(result.bumpType).toBe('major');
+    });
+
+    it('should return null when all types are mapped to none', () => {
+      const commits: Commit[] = [
+        { sha: 'abc123', message: 'docs: update README with new examples' },
+      ];
+
+      const result = getBumpTypeFromCommits(commits, NotConventionalCommitsReaction.WARN, {
+        ...bumpMapping,
+        '*': BumpLevel.NONE,
+      });
+      expect(result.bumpType).toBe(null);
+    });
+
+    it('should not let types mapped to none lower the bump', () => {
+      const commits: Commit[] = [
+        { sha: 'abc123', message: 'docs: update README with new examples' },
+        { sha: 'def456', message: 'fix: resolve memory leak in cache' },
+      ];
+
+      const result = getBumpTypeFromCommits(commits, NotConventionalCommitsReaction.WARN, bumpMapping);
+      expect(result.bumpType).toBe('patch');
     });
   });
 
@@ -147,7 +366,7 @@ describe('getBumpTypeFromCommits', () => {
       
       const result = getBumpTypeFromCommits(commits);
       
-      expect(result).toBe('patch');
+      expect(result.bumpType).toBe('patch');
       expect(mockedCore.warning).toHaveBeenCalledWith(
         "Commit message not in conventional-commits format: 'Add some new features'"
       );
@@ -163,10 +382,7 @@ describe('getBumpTypeFromCommits', () => {
         { sha: 'ghi789', message: 'WIP: work in progress' },
       ];
       
-      const result = getBumpTypeFromCommits(commits, NotConventionalCommitsReaction.ERROR);
-      
-      expect(result).toBe(undefined);
-      expect(mockedCore.setFailed).toHaveBeenCalledWith(
+      expect(() => getBumpTypeFromCommits(commits, NotConventionalCommitsReaction.ERROR)).toThrow(
         "Commit message not in conventional-commits format: 'Add some new features'"
       );
       expect(mockedCore.warning).not.toHaveBeenCalledWith(
@@ -183,7 +399,7 @@ describe('getBumpTypeFromCommits', () => {
       
       const result = getBumpTypeFromCommits(commits, NotConventionalCommitsReaction.IGNORE);
       
-      expect(result).toBe('patch');
+      expect(result.bumpType).toBe('patch');
       expect(mockedCore.warning).not.toHaveBeenCalledWith(
         "Commit message not in conventional-commits format: 'Add some new features'"
       );
@@ -207,7 +423,7 @@ describe('getBumpTypeFromCommits', () => {
       
       const result = getBumpTypeFromCommits(commits);
       
-      expect(result).toBe('minor');
+      expect(result.bumpType).toBe('minor');
       expect(mockedCore.debug).toHaveBeenCalledWith(
         "Ignoring commit message: 'Merge branch \"feature\" into main'"
       );
@@ -227,7 +443,7 @@ describe('getBumpTypeFromCommits', () => {
       ];
       
       const result = getBumpTypeFromCommits(commits);
-      expect(result).toBe('minor');
+      expect(result.bumpType).toBe('minor');
     });
 
     it('should handle commits with special characters', () => {
@@ -237,7 +453,7 @@ describe('getBumpTypeFromCommits', () => {
       ];
       
       const result = getBumpTypeFromCommits(commits);
-      expect(result).toBe('minor');
+      expect(result.bumpType).toBe('minor');
     });
 
     it('should handle empty commit messages', () => {
@@ -246,7 +462,7 @@ describe('getBumpTypeFromCommits', () => {
       ];
       
       const result = getBumpTypeFromCommits(commits);
-      expect(result).toBe('patch');
+      expect(result.bumpType).toBe('patch');
       expect(mockedCore.warning).toHaveBeenCalledWith(
         "Commit message not in conventional-commits format: ''"
       );
@@ -259,19 +475,365 @@ describe('getBumpTypeFromCommits', () => {
       
       const result = getBumpTypeFromCommits(commits);
       
-      expect(result).toBe('patch');
+      expect(result.bumpType).toBe('patch');
       expect(mockedCore.warning).toHaveBeenCalledWith(
         "Commit message not in conventional-commits format: '   \n\t  '"
       );
     });
   });
+
+  describe('bump decision', () => {
+    it('should explain how each commit was taken into account', () => {
+      const commits: Commit[] = [
+        { sha: 'abc123', message: 'fix: resolve login issue' },
+        { sha: 'def456', message: 'Merge pull request #1 from user/branch' },
+        { sha: 'ghi789', message: 'feat(api)!: remove v1 endpoints\n\nUse v2 instead.' },
+        { sha: 'jkl012', message: 'Updated dependencies' },
+        { sha: 'mno345', message: 'feat: add dark mode' },
+      ];
+
+      const result = getBumpTypeFromCommits(commits, NotConventionalCommitsReaction.IGNORE);
+
+      expect(result).toEqual({
+        bumpType: 'major',
+        considered: [
+          { sha: 'abc123', subject: 'fix: resolve login issue', type: 'fix', breaking: false, bumpLevel: BumpLevel.PATCH },
+          { sha: 'ghi789', subject: 'feat(api)!: remove v1 endpoints', type: 'feat', breaking: true, bumpLevel: BumpLevel.MAJOR },
+          { sha: 'mno345', subject: 'feat: add dark mode', type: 'feat', breaking: false, bumpLevel: BumpLevel.MINOR },
+        ],
+        ignored: [
+          { sha: 'def456', subject: 'Merge pull request #1 from user/branch', type: null, breaking: false, bumpLevel: BumpLevel.NONE },
+        ],
+        nonConventional: [
+          { sha: 'jkl012', subject: 'Updated dependencies', type: null, breaking: false, bumpLevel: BumpLevel.PATCH },
+        ],
+        trigger: { sha: 'ghi789', subject: 'feat(api)!: remove v1 endpoints', type: 'feat', breaking: true, bumpLevel: BumpLevel.MAJOR },
+      });
+    });
+
+    it('should report the first commit requiring the bump as trigger', () => {
+      const commits: Commit[] = [
+        { sha: 'abc123', message: 'fix: resolve login issue' },
+        { sha: 'def456', message: 'feat: add user dashboard' },
+        { sha: 'ghi789', message: 'feat: add dark mode' },
+      ];
+
+      const result = getBumpTypeFromCommits(commits);
+
+      expect(result.trigger.sha).toBe('def456');
+    });
+
+    it('should report no trigger when no release is needed', () => {
+      const result = getBumpTypeFromCommits([{ sha: 'abc123', message: 'docs: update README' }], NotConventionalCommitsReaction.WARN, {
+        docs: BumpLevel.NONE,
+      });
+
+      expect(result.bumpType).toBe(null);
+      expect(result.trigger).toBe(null);
+      expect(result.considered.map(commitDecision => commitDecision.sha)).toEqual(['abc123']);
+    });
+  });
+
+  describe('when commits are resolved to pull requests', () => {
+    const pullRequest: PullRequest = { number: 7, title: 'Add login', labels: [], mergeCommitSha: 'abc123' };
+
+    it('should let label override bump level of the title', () => {
+      const result = getBumpTypeFromCommits([
+        { sha: 'abc123', message: 'fix: login', pullRequest: { ...pullRequest, labels: ['bug', 'semver:major'] } },
+      ]);
+
+      expect(result.bumpType).toBe('major');
+      expect(result.trigger).toEqual({ sha: 'abc123', subject: 'fix: login', type: 'fix', breaking: false, bumpLevel: BumpLevel.MAJOR });
+    });
+
+    it('should not let label downgrade breaking change', () => {
+      const result = getBumpTypeFromCommits([
+        { sha: 'abc123', message: 'feat!: login', pullRequest: { ...pullRequest, labels: ['semver:patch'] } },
+      ]);
+
+      expect(result.bumpType).toBe('major');
+    });
+
+    it('should bump by label without reporting title not in conventional-commits format', () => {
+      const result = getBumpTypeFromCommits([
+        { sha: 'abc123', message: 'Add login', pullRequest: { ...pullRequest, labels: ['semver:minor'] } },
+      ], NotConventionalCommitsReaction.ERROR);
+
+      expect(result.bumpType).toBe('minor');
+      expect(result.considered.map(commitDecision => commitDecision.sha)).toEqual(['abc123']);
+      expect(result.nonConventional).toEqual([]);
+      expect(mockedCore.setFailed).not.toHaveBeenCalled();
+    });
+
+    it('should use title without bump label', () => {
+      const result = getBumpTypeFromCommits([{ sha: 'abc123', message: 'feat: login', pullRequest }]);
+
+      expect(result.bumpType).toBe('minor');
+    });
+  });
+});
+
+
+describe('squashCommitsOfPullRequests', () => {
+  const pullRequest: PullRequest = { number: 7, title: 'feat: add login', labels: ['semver:minor'], mergeCommitSha: 'merge7' };
+
+  it('should replace commits of pull request by merge commit with its title', () => {
+    const commits: Commit[] = [
+      { sha: 'aaa', message: 'fix: typo' },
+      { sha: 'bbb', message: 'wip', files: ['src/login.ts'] },
+      { sha: 'ccc', message: 'more wip', files: ['src/login.ts', 'README.md'] },
+      { sha: 'merge7', message: 'Merge pull request #7 from user/login', files: [] },
+      { sha: 'ddd', message: 'chore: cleanup' },
+    ];
+
+    const result = squashCommitsOfPullRequests(commits, new Map([['bbb', pullRequest], ['ccc', pullRequest], ['merge7', pullRequest]]));
+
+    expect(result).toEqual([
+      { sha: 'aaa', message: 'fix: typo' },
+      { sha: 'merge7', message: 'feat: add login', files: ['src/login.ts', 'README.md'], pullRequest },
+      { sha: 'ddd', message: 'chore: cleanup' },
+    ]);
+  });
+
+  it('should keep newest commit of pull request without merge commit', () => {
+    const result = squashCommitsOfPullRequests(
+      [{ sha: 'bbb', message: 'wip' }, { sha: 'ccc', message: 'more wip' }],
+      new Map([['bbb', pullRequest], ['ccc', pullRequest]])
+    );
+
+    expect(result).toEqual([{ sha: 'ccc', message: 'feat: add login', pullRequest }]);
+  });
+});
+
+
+describe('getBumpLevelFromLabels', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should return highest bump level of semver labels', () => {
+    expect(getBumpLevelFromLabels(['semver:patch', 'enhancement', 'SemVer:Major'])).toBe(BumpLevel.MAJOR);
+    expect(getBumpLevelFromLabels(['semver:none'])).toBe(BumpLevel.NONE);
+  });
+
+  it('should return null without semver labels', () => {
+    expect(getBumpLevelFromLabels(['bug'])).toBeNull();
+  });
+
+  it('should warn about unknown bump levels', () => {
+    expect(getBumpLevelFromLabels(['semver:huge'])).toBeNull();
+    expect(mockedCore.warning).toHaveBeenCalledWith('Ignoring label semver:huge: Invalid BumpLevel value: huge');
+  });
+});
+
+describe('getInitialDevelopmentBumpType', () => {
+  it('should lower major to minor for 0.y.z versions', () => {
+    expect(getInitialDevelopmentBumpType('major', '0.3.1')).toBe('minor');
+  });
+
+  it('should lower minor to patch for 0.y.z versions', () => {
+    expect(getInitialDevelopmentBumpType('minor', '0.3.1')).toBe('patch');
+  });
+
+  it('should keep patch for 0.y.z versions', () => {
+    expect(getInitialDevelopmentBumpType('patch', '0.3.1')).toBe('patch');
+  });
+
+  it('should not change bump type for 1.0.0 and higher', () => {
+    expect(getInitialDevelopmentBumpType('major', '1.0.0')).toBe('major');
+    expect(getInitialDevelopmentBumpType('minor', '2.3.4')).toBe('minor');
+  });
 });
 
 describe('suffixWithPreRelease', () => {
   it('should suffix version with pre-release identifier', () => {
     const version = '1.2.3';
     const glue = '-rc.';
-    const result = suffixWithPreRelease(version, glue);
+    const result = suffixWithPreRelease(version, glue, 'abcdef1234567890');
     expect(result).toBe('1.2.3-rc.abcdef1');
   });
 });
+
+describe('validatePreReleaseTemplate', () => {
+  it('should accept known placeholders', () => {
+    expect(() => validatePreReleaseTemplate('{branch}.{run_number}.{pr_number}.{sha}.{sha7}+build.{timestamp}')).not.toThrow();
+  });
+
+  it('should throw for unknown placeholder', () => {
+    expect(() => validatePreReleaseTemplate('{branch}.{run_id}')).toThrow(
+      'Pre-release template ({branch}.{run_id}) contains unknown placeholder {run_id}, known are {branch}, {run_number}, {pr_number}, {sha}, {sha7}, {timestamp}'
+    );
+  });
+});
+
+describe('sanitizeIdentifier', () => {
+  it('should replace invalid characters of branch names', () => {
+    expect(sanitizeIdentifier('feature/ABC_123')).toBe('feature-ABC-123');
+    expect(sanitizeIdentifier('release/1.2.x')).toBe('release-1-2-x');
+    expect(sanitizeIdentifier('/fix//über_')).toBe('fix-ber');
+  });
+});
+
+describe('renderPreReleaseTemplate', () => {
+  const values = {
+    branch: 'feature/ABC_123',
+    runNumber: 42,
+    pullRequestNumber: null,
+    sha: 'abcdef1234567890',
+    timestamp: new Date('2026-03-04T05:06:07.890Z'),
+  };
+
+  it('should render pre-release identifiers', () => {
+    expect(renderPreReleaseTemplate('{branch}.{run_number}.{sha7}', values)).toBe('-feature-ABC-123.42.abcdef1');
+  });
+
+  it('should render build metadata', () => {
+    expect(renderPreReleaseTemplate('+build.{timestamp}', values)).toBe('+build.20260304050607');
+  });
+
+  it('should render pre-release identifiers and build metadata', () => {
+    const suffix = renderPreReleaseTemplate('-pr.{branch}+{sha}', values);
+
+    expect(suffix).toBe('-pr.feature-ABC-123+abcdef1234567890');
+    expect(semver.valid(`1.2.3${suffix}`)).not.toBeNull();
+  });
+
+  it('should drop empty identifiers', () => {
+    expect(renderPreReleaseTemplate('{branch}.{pr_number}.{run_number}', values)).toBe('-feature-ABC-123.42');
+  });
+
+  it('should remove leading zeros of numeric pre-release identifiers only', () => {
+    expect(renderPreReleaseTemplate('{sha7}+{sha7}', { ...values, sha: '0123456789abcdef' })).toBe('-123456+0123456');
+  });
+
+  it('should throw when pre-release identifiers render empty', () => {
+    expect(() => renderPreReleaseTemplate('{pr_number}+build.{run_number}', values)).toThrow(
+      'Pre-release template ({pr_number}+build.{run_number}) renders to no pre-release identifiers'
+    );
+  });
+});
+
+describe('getBranchNameFromRef', () => {
+  it('should strip refs/heads/ prefix', () => {
+    expect(getBranchNameFromRef('refs/heads/release/1.x')).toBe('release/1.x');
+  });
+
+  it('should return branch name as is', () => {
+    expect(getBranchNameFromRef('develop')).toBe('develop');
+  });
+});
+
+describe('getBranchConfigForRef', () => {
+  const branchConfigs = [
+    { pattern: 'main', stable: true },
+    { pattern: '1.x', stable: true, line: '1.x' },
+    { pattern: 'release/*', channel: 'rc' },
+    { pattern: '*', channel: 'alpha' },
+  ];
+
+  it('should return config of the first matching pattern', () => {
+    expect(getBranchConfigForRef('refs/heads/main', branchConfigs)).toBe(branchConfigs[0]);
+    expect(getBranchConfigForRef('refs/heads/1.x', branchConfigs)).toBe(branchConfigs[1]);
+    expect(getBranchConfigForRef('refs/heads/release/2.0', branchConfigs)).toBe(branchConfigs[2]);
+    expect(getBranchConfigForRef('refs/heads/feature/login', branchConfigs)).toBe(branchConfigs[3]);
+  });
+
+  it('should return null when no pattern matches', () => {
+    expect(getBranchConfigForRef('refs/heads/develop', branchConfigs.slice(0, 3))).toBe(null);
+  });
+});
+
+describe('isVersionWithinLine', () => {
+  it('should check major line', () => {
+    expect(isVersionWithinLine('1.4.2', '1.x')).toBe(true);
+    expect(isVersionWithinLine('1.4.2', '1')).toBe(true);
+    expect(isVersionWithinLine('2.0.0', '1.x')).toBe(false);
+  });
+
+  it('should check major.minor line', () => {
+    expect(isVersionWithinLine('1.3.5', '1.3.x')).toBe(true);
+    expect(isVersionWithinLine('1.3.5', '1.3')).toBe(true);
+    expect(isVersionWithinLine('1.4.0', '1.3.x')).toBe(false);
+  });
+
+  it('should accept pre-release versions within the line', () => {
+    expect(isVersionWithinLine('1.3.5-rc.1', '1.3.x')).toBe(true);
+  });
+});
+
+describe('getHighestVersionTagWithinLine', () => {
+  const tags = ['v3.2.0', 'v1.10.0', 'v1.9.3', 'v1.2.7', 'v1.2.10', 'v2.0.0', 'v1.11.0-rc.1', 'latest'];
+
+  it('should return highest version tag within major line', () => {
+    expect(getHighestVersionTagWithinLine(tags, '1.x')).toBe('v1.10.0');
+  });
+
+  it('should return highest version tag within major.minor line', () => {
+    expect(getHighestVersionTagWithinLine(tags, '1.2.x')).toBe('v1.2.10');
+  });
+
+  it('should return null when there is no release within the line', () => {
+    expect(getHighestVersionTagWithinLine(tags, '4.x')).toBe(null);
+  });
+
+  it('should only consider tags matching the tag pattern', () => {
+    const packageTags = ['other-lib@3.0.0', 'my-lib@1.2.3', 'my-lib@1.10.0', 'v5.0.0'];
+    expect(getHighestVersionTagWithinLine(packageTags, '*', '{package}@{version}', 'my-lib')).toBe('my-lib@1.10.0');
+  });
+});
+
+describe('getPreReleaseIdentifierForBranch', () => {
+  const mapping = {
+    'develop': 'beta',
+    'release/*': 'rc',
+    '*': 'alpha',
+  };
+
+  it('should return identifier for exact branch name', () => {
+    expect(getPreReleaseIdentifierForBranch('refs/heads/develop', mapping)).toBe('beta');
+  });
+
+  it('should return identifier for matching branch pattern', () => {
+    expect(getPreReleaseIdentifierForBranch('refs/heads/release/1.2', mapping)).toBe('rc');
+  });
+
+  it('should return identifier of the first matching pattern', () => {
+    expect(getPreReleaseIdentifierForBranch('refs/heads/feature/login', mapping)).toBe('alpha');
+    expect(getPreReleaseIdentifierForBranch('refs/heads/develop', { '*': 'alpha', 'develop': 'beta' })).toBe('alpha');
+  });
+
+  it('should accept branch name without refs/heads/ prefix', () => {
+    expect(getPreReleaseIdentifierForBranch('release/1.2', mapping)).toBe('rc');
+  });
+
+  it('should return default identifier when no pattern matches', () => {
+    expect(getPreReleaseIdentifierForBranch('refs/heads/develop', {})).toBe('rc');
+  });
+});
+
+describe('suffixWithPreReleaseCounter', () => {
+  it('should start counter at 1 when there are no matching tags', () => {
+    const result = suffixWithPreReleaseCounter('1.3.0', 'rc', ['v1.2.0', 'v1.2.1-rc.4']);
+    expect(result).toBe('1.3.0-rc.1');
+  });
+
+  it('should increment the highest counter of matching tags', () => {
+    const result = suffixWithPreReleaseCounter('1.3.0', 'rc', ['v1.3.0-rc.1', 'v1.3.0-rc.3', '1.3.0-rc.2']);
+    expect(result).toBe('1.3.0-rc.4');
+  });
+
+  it('should count each identifier separately', () => {
+    const result = suffixWithPreReleaseCounter('1.3.0', 'beta', ['v1.3.0-rc.5', 'v1.3.0-beta.1', 'v1.3.0-alpha.7']);
+    expect(result).toBe('1.3.0-beta.2');
+  });
+
+  it('should ignore tags which are not in identifier.counter format', () => {
+    const result = suffixWithPreReleaseCounter('1.3.0', 'rc', ['v1.3.0-rc', 'v1.3.0-rc.abc1234', 'v1.3.0-rc.1.2', 'not-a-version']);
+    expect(result).toBe('1.3.0-rc.1');
+  });
+
+  it('should produce versions incrementable by semver', () => {
+    const result = suffixWithPreReleaseCounter('1.3.0', 'rc', ['v1.3.0-rc.1']);
+    expect(result).toBe(semver.inc('1.3.0-rc.1', 'prerelease'));
+  });
+});
@@ -2,23 +2,73 @@ import { jest, describe, beforeEach, it, expect } from '@jest/globals';
 import * as core from '@actions/core';
 import * as semver from 'semver';
 import { context } from '@actions/github';
+import { LocalGitClient } from '../git';
+import { GiteaClient } from '../gitea';
 import { GitHubClient } from '../github';
-import { main } from '../main';
-import { getBumpTypeFromCommits, suffixWithPreRelease } from '../logic';
-import { NotConventionalCommitsReaction } from '../types';
+import { generateChangelog } from '../changelog';
+import { bumpVersionInFiles } from '../files';
+import { lintPullRequest, renderLintComment, reportLintResult, writeLintComment } from '../lint';
+import { getPackageTagPattern, getPackageVersions } from '../packages';
+import { createTagAndRelease, moveFloatingTags } from '../release';
+import { writeBumpDecisionSummary } from '../summary';
+import { getNextVersion, main } from '../main';
+import { actionsLogger } from '../utils';
+import { DEFAULT_BUMP_MAPPING, filterCommitsByPaths, filterCommitsByScopes, getBumpTypeFromCommits, getHighestVersionTagWithinLine, getInitialDevelopmentBumpType, getPreReleaseIdentifierForBranch, getBranchConfigForRef, getBranchNameFromRef, isVersionWithinLine, renderPreReleaseTemplate, squashCommitsOfPullRequests, suffixWithPreRelease, suffixWithPreReleaseCounter, validatePreReleaseTemplate } from '../logic';
+import { BumpDecision, BumpFileFormat, BumpLevel, LintReport, NotConventionalCommitsReaction, VersionSource } from '../types';
 import { Commit } from '../github/types';
 
 // Mock dependencies
 jest.mock('@actions/core');
 jest.mock('@actions/github');
+jest.mock('../git');
+jest.mock('../gitea');
 jest.mock('../github');
 jest.mock('../logic');
+jest.mock('../changelog');
+jest.mock('../files');
+jest.mock('../lint');
+jest.mock('../packages');
+jest.mock('../release');
+jest.mock('../summary');
 
 const mockCore = core as jest.Mocked<typeof core>;
 const mockContext = context as jest.Mocked<typeof context>;
+const mockLocalGitClient = LocalGitClient as jest.MockedClass<typeof LocalGitClient>;
+const mockGiteaClient = GiteaClient as jest.MockedClass<typeof GiteaClient>;
 const mockGitHubClient = GitHubClient as jest.MockedClass<typeof GitHubClient>;
+const mockFilterCommitsByPaths = filterCommitsByPaths as jest.MockedFunction<typeof filterCommitsByPaths>;
+const mockFilterCommitsByScopes = filterCommitsByScopes as jest.MockedFunction<typeof filterCommitsByScopes>;
 const mockGetBumpTypeFromCommits = getBumpTypeFromCommits as jest.MockedFunction<typeof getBumpTypeFromCommits>;
+const mockGetInitialDevelopmentBumpType = getInitialDevelopmentBumpType as jest.MockedFunction<typeof getInitialDevelopmentBumpType>;
+const mockSquashCommitsOfPullRequests = squashCommitsOfPullRequests as jest.MockedFunction<typeof squashCommitsOfPullRequests>;
 const mockSuffixWithPreRelease = suffixWithPreRelease as jest.MockedFunction<typeof suffixWithPreRelease>;
+const mockGetPreReleaseIdentifierForBranch = getPreReleaseIdentifierForBranch as jest.MockedFunction<typeof getPreReleaseIdentifierForBranch>;
+const mockSuffixWithPreReleaseCounter = suffixWithPreReleaseCounter as jest.MockedFunction<typeof suffixWithPreReleaseCounter>;
+const mockGetBranchNameFromRef = getBranchNameFromRef as jest.MockedFunction<typeof getBranchNameFromRef>;
+const mockRenderPreReleaseTemplate = renderPreReleaseTemplate as jest.MockedFunction<typeof renderPreReleaseTemplate>;
+const mockValidatePreReleaseTemplate = validatePreReleaseTemplate as jest.MockedFunction<typeof validatePreReleaseTemplate>;
+const mockGetBranchConfigForRef = getBranchConfigForRef as jest.MockedFunction<typeof getBranchConfigForRef>;
+const mockGetHighestVersionTagWithinLine = getHighestVersionTagWithinLine as jest.MockedFunction<typeof getHighestVersionTagWithinLine>;
+const mockIsVersionWithinLine = isVersionWithinLine as jest.MockedFunction<typeof isVersionWithinLine>;
+const mockGetPackageVersions = getPackageVersions as jest.MockedFunction<typeof getPackageVersions>;
+const mockGetPackageTagPattern = getPackageTagPattern as jest.MockedFunction<typeof getPackageTagPattern>;
+const mockGenerateChangelog = generateChangelog as jest.MockedFunction<typeof generateChangelog>;
+const mockCreateTagAndRelease = createTagAndRelease as jest.MockedFunction<typeof createTagAndRelease>;
+const mockMoveFloatingTags = moveFloatingTags as jest.MockedFunction<typeof moveFloatingTags>;
+const mockBumpVersionInFiles = bumpVersionInFiles as jest.MockedFunction<typeof bumpVersionInFiles>;
+const mockLintPullRequest = lintPullRequest as jest.MockedFunction<typeof lintPullRequest>;
+const mockRenderLintComment = renderLintComment as jest.MockedFunction<typeof renderLintComment>;
+const mockReportLintResult = reportLintResult as jest.MockedFunction<typeof reportLintResult>;
+const mockWriteLintComment = writeLintComment as jest.MockedFunction<typeof writeLintComment>;
+const mockWriteBumpDecisionSummary = writeBumpDecisionSummary as jest.MockedFunction<typeof writeBumpDecisionSummary>;
+
+const bumpDecision = (bumpType: semver.ReleaseType | null): BumpDecision => ({
+  bumpType,
+  considered: [],
+  ignored: [],
+  nonConventional: [],
+  trigger: null,
+});
 
 describe('main', () => {
   let mockGitHubClientInstance: jest.Mocked<GitHubClient>;
@@ -32,6 +82,10 @@ describe('main', () => {
       getLatestReleaseTag: jest.fn(),
       getListOfCommitsBetween: jest.fn(),
       getDefaultBranchName: jest.fn(),
+      getTagNames: jest.fn(),
+      getReleaseTagNames: jest.fn(),
+      getLatestVersionTag: jest.fn(),
+      getCommitSha: jest.fn(),
     } as any;
     
     mockGitHubClient.mockImplementation(() => mockGitHubClientInstance);
@@ -48,6 +102,9 @@ describe('main', () => {
     // Setup default return value for getDefaultBranchName
     mockGitHubClientInstance.getDefaultBranchName.mockResolvedValue('main');
 
+    // Setup default return value for getBranchConfigForRef
+    mockGetBranchConfigForRef.mockReturnValue(null);
+
     // Setup default return value for suffixWithPreRelease
     mockSuffixWithPreRelease.mockImplementation((version, glue) => `${version}${glue}abc1234`);
   });
@@ -62,7 +119,7 @@ describe('main', () => {
       mockGitHubClientInstance.getLatestReleaseTag.mockResolvedValue(latestTag);
       mockGitHubClientInstance.getListOfCommitsBetween.mockResolvedValue(commits);
       mockGitHubClientInstance.getDefaultBranchName.mockResolvedValue('main');
-      mockGetBumpTypeFromCommits.mockReturnValue('minor');
+      mockGetBumpTypeFromCommits.mockReturnValue(bumpDecision('minor'));
       
       await main('owner/repo', 'token', 'refs/heads/main', 'warn', '1.0.0', '-');
       
@@ -128,7 +185,7 @@ describe('main', () => {
       await main('owner/repo', 'token', 'refs/heads/main', 'warn', '1.0.0', '-');
       
       expect(mockCore.info).toHaveBeenCalledWith('No new commits found since the latest release.');
-      expect(mockCore.info).toHaveBeenCalledWith('No conventional commits found. Bumping patch version.');
+      expect(mockCore.info).toHaveBeenCalledWith('No releasable commits found. Bumping patch version.');
       expect(mockCore.info).toHaveBeenCalledWith('Bump type: patch');
       expect(mockCore.setOutput).toHaveBeenCalledWith('new-version', '1.0.1');
     });
@@ -141,14 +198,14 @@ describe('main', () => {
       
       mockGitHubClientInstance.getListOfCommitsBetween.mockResolvedValue(commits);
       mockGitHubClientInstance.getDefaultBranchName.mockResolvedValue('main');
-      mockGetBumpTypeFromCommits.mockReturnValue('minor');
+      mockGetBumpTypeFromCommits.mockReturnValue(bumpDecision('minor'));
       
       await main('owner/repo', 'token', 'refs/heads/develop', 'ignore', '1.0.0', '-');
       
       expect(mockCore.info).toHaveBeenCalledWith('Found 2 commits since the latest release.');
-      expect(mockGetBumpTypeFromCommits).toHaveBeenCalledWith(commits, NotConventionalCommitsReaction.IGNORE);
+      expect(mockGetBumpTypeFromCommits).toHaveBeenCalledWith(commits, NotConventionalCommitsReaction.IGNORE, DEFAULT_BUMP_MAPPING, actionsLogger);
       expect(mockCore.info).toHaveBeenCalledWith('Bump type: minor');
-      expect(mockSuffixWithPreRelease).toHaveBeenCalledWith('1.1.0', '-');
+      expect(mockSuffixWithPreRelease).toHaveBeenCalledWith('1.1.0', '-', 'abc1234567890def');
       expect(mockCore.setOutput).toHaveBeenCalledWith('new-version', '1.1.0-abc1234');
     });
 
@@ -159,7 +216,7 @@ describe('main', () => {
       
       mockGitHubClientInstance.getListOfCommitsBetween.mockResolvedValue(commits);
       mockGitHubClientInstance.getDefaultBranchName.mockResolvedValue('main');
-      mockGetBumpTypeFromCommits.mockReturnValue('major');
+      mockGetBumpTypeFromCommits.mockReturnValue(bumpDecision('major'));
       
       await main('owner/repo', 'token', 'refs/heads/main', 'error', '1.0.0', '-');
       
@@ -168,6 +225,59 @@ describe('main', () => {
       expect(mockCore.setOutput).toHaveBeenCalledWith('new-major-version', '2');
     });
 
+    it('should generate changelog from commits', async () => {
+      const commits: Commit[] = [
+        { sha: 'abc123', message: 'feat: new feature' }
+      ];
+
+      mockGitHubClientInstance.getListOfCommitsBetween.mockResolvedValue(commits);
+      mockGetBumpTypeFromCommits.mockReturnValue(bumpDecision('minor'));
+      mockGenerateChangelog.mockReturnValue('### Features\n\n- new feature (abc123)');
+
+      await main('owner/repo', 'token', 'refs/heads/main', 'warn', '1.0.0', '-');
+
+      expect(mockGenerateChangelog).toHaveBeenCalledWith(commits);
+      expect(mockCore.setOutput).toHaveBeenCalledWith('changelog', '### Features\n\n- new feature (abc123)');
+    });
+
+    it('should set empty changelog when there are no new commits', async () => {
+      mockGitHubClientInstance.getListOfCommitsBetween.mockResolvedValue([]);
+
+      await main('owner/repo', 'token', 'refs/heads/main', 'warn', '1.0.0', '-');
+
+      expect(mockGenerateChangelog).not.toHaveBeenCalled();
+      expect(mockCore.setOutput).toHaveBeenCalledWith('changelog', '');
+    });
+
+    it('should pass bump mapping merged over defaults', async () => {
+      const commits: Commit[] = [
+        { sha: 'abc123', message: 'perf: faster queries' }
+      ];
+
+      mockGitHubClientInstance.getListOfCommitsBetween.mockResolvedValue(commits);
+      mockGetBumpTypeFromCommits.mockReturnValue(bumpDecision('minor'));
+
+      await main('owner/repo', 'token', 'refs/heads/main', 'warn', '1.0.0', '-', {
+        bumpMapping: '{"perf": "minor", "docs": "none"}',
+      });
+
+      expect(mockGetBumpTypeFromCommits).toHaveBeenCalledWith(commits, NotConventionalCommitsReaction.WARN, {
+        ...DEFAULT_BUMP_MAPPING,
+        perf: BumpLevel.MINOR,
+        docs: BumpLevel.NONE,
+      }, actionsLogger);
+      expect(mockCore.setOutput).toHaveBeenCalledWith('new-version', '1.1.0');
+    });
+
+    it('should fail when bump mapping is invalid', async () => {
+      await main('owner/repo', 'token', 'refs/heads/main', 'warn', '1.0.0', '-', {
+        bumpMapping: 'perf: huge',
+      });
+
+      expect(mockCore.setFailed).toHaveBeenCalledWith('Invalid bump mapping: Invalid BumpLevel value: huge');
+      expect(mockGitHubClientInstance.getLatestReleaseTag).not.toHaveBeenCalled();
+    });
+
     it('should fail when unable to get commits', async () => {
       const error = new Error('API Error');
       mockGitHubClientInstance.getListOfCommitsBetween.mockRejectedValue(error);
@@ -187,16 +297,129 @@ describe('main', () => {
       
       mockGitHubClientInstance.getListOfCommitsBetween.mockResolvedValue(commits);
       mockGitHubClientInstance.getDefaultBranchName.mockResolvedValue('main');
-      mockGetBumpTypeFromCommits.mockReturnValue(null as any);
+      mockGetBumpTypeFromCommits.mockReturnValue(bumpDecision(null));
       
       await main('owner/repo', 'token', 'refs/heads/main', 'warn', '1.0.0', '-');
       
-      expect(mockCore.info).toHaveBeenCalledWith('No conventional commits found. Bumping patch version.');
+      expect(mockCore.info).toHaveBeenCalledWith('No releasable commits found. Bumping patch version.');
       expect(mockCore.info).toHaveBeenCalledWith('Bump type: patch');
       expect(mockCore.setOutput).toHaveBeenCalledWith('new-version', '1.0.1');
     });
   });
 
+  describe('release needed', () => {
+    beforeEach(() => {
+      mockGitHubClientInstance.getLatestReleaseTag.mockResolvedValue('v1.2.3');
+    });
+
+    it('should not need a release without new commits but bump patch version by default', async () => {
+      mockGitHubClientInstance.getListOfCommitsBetween.mockResolvedValue([]);
+
+      await main('owner/repo', 'token', 'refs/heads/main', 'warn', '1.0.0', '-');
+
+      expect(mockCore.setOutput).toHaveBeenCalledWith('release-needed', 'false');
+      expect(mockCore.setOutput).toHaveBeenCalledWith('new-version', '1.2.4');
+    });
+
+    it('should not need a release when no commit requires one but bump patch version by default', async () => {
+      mockGitHubClientInstance.getListOfCommitsBetween.mockResolvedValue([{ sha: 'abc123', message: 'docs: update readme' }]);
+      mockGetBumpTypeFromCommits.mockReturnValue(bumpDecision(null));
+
+      await main('owner/repo', 'token', 'refs/heads/develop', 'warn', '1.0.0', '-');
+
+      expect(mockSuffixWithPreRelease).toHaveBeenCalledWith('1.2.4', '-', 'abc1234567890def');
+      expect(mockCore.setOutput).toHaveBeenCalledWith('release-needed', 'false');
+    });
+
+    it('should skip bump when there are no new commits', async () => {
+      mockGitHubClientInstance.getListOfCommitsBetween.mockResolvedValue([]);
+
+      await main('owner/repo', 'token', 'refs/heads/main', 'warn', '1.0.0', '-', { skipReleaseWhenNotNeeded: true });
+
+      expect(mockCore.info).toHaveBeenCalledWith('No releasable commits found. Skipping version bump.');
+      expect(mockCore.setOutput).toHaveBeenCalledWith('release-needed', 'false');
+      expect(mockCore.setOutput).toHaveBeenCalledWith('new-version', '1.2.3');
+      expect(mockCore.setOutput).toHaveBeenCalledWith('new-major-version', '1');
+    });
+
+    it('should skip bump when no commit requires a release', async () => {
+      const commits: Commit[] = [
+        { sha: 'abc123', message: 'docs: update readme' }
+      ];
+      mockGitHubClientInstance.getListOfCommitsBetween.mockResolvedValue(commits);
+      mockGetBumpTypeFromCommits.mockReturnValue(bumpDecision(null));
+
+      await main('owner/repo', 'token', 'refs/heads/develop', 'warn', '1.0.0', '-', { skipReleaseWhenNotNeeded: true });
+
+      expect(mockSuffixWithPreRelease).not.toHaveBeenCalled();
+      expect(mockCore.setOutput).toHaveBeenCalledWith('release-needed', 'false');
+      expect(mockCore.setOutput).toHaveBeenCalledWith('new-version', '1.2.3');
+    });
+
+    it('should bump when commits require a release', async () => {
+      const commits: Commit[] = [
+        { sha: 'abc123', message: 'fix: bug fix' }
+      ];
+      mockGitHubClientInstance.getListOfCommitsBetween.mockResolvedValue(commits);
+      mockGetBumpTypeFromCommits.mockReturnValue(bumpDecision('patch'));
+
+      await main('owner/repo', 'token', 'refs/heads/main', 'warn', '1.0.0', '-', { skipReleaseWhenNotNeeded: true });
+
+      expect(mockCore.setOutput).toHaveBeenCalledWith('release-needed', 'true');
+      expect(mockCore.setOutput).toHaveBeenCalledWith('new-version', '1.2.4');
+    });
+
+    it('should always need a release when there is no latest release', async () => {
+      mockGitHubClientInstance.getLatestReleaseTag.mockResolvedValue(null);
+
+      await main('owner/repo', 'token', 'refs/heads/main', 'warn', '1.0.0', '-', { skipReleaseWhenNotNeeded: true });
+
+      expect(mockCore.setOutput).toHaveBeenCalledWith('release-needed', 'true');
+      expect(mockCore.setOutput).toHaveBeenCalledWith('new-version', '1.0.0');
+    });
+  });
+
+  describe('initial development mode', () => {
+    const commits: Commit[] = [
+      { sha: 'abc123', message: 'feat!: breaking change' }
+    ];
+
+    beforeEach(() => {
+      mockGitHubClientInstance.getListOfCommitsBetween.mockResolvedValue(commits);
+      mockGetBumpTypeFromCommits.mockReturnValue(bumpDecision('major'));
+      mockGetInitialDevelopmentBumpType.mockReturnValue('minor');
+    });
+
+    it('should lower bump type when current version is 0.y.z', async () => {
+      mockGitHubClientInstance.getLatestReleaseTag.mockResolvedValue('v0.3.1');
+
+      await main('owner/repo', 'token', 'refs/heads/main', 'warn', '1.0.0', '-', { initialDevelopmentMode: true });
+
+      expect(mockGetInitialDevelopmentBumpType).toHaveBeenCalledWith('major', '0.3.1');
+      expect(mockCore.info).toHaveBeenCalledWith('Current version (0.3.1) is in initial development. Lowering bump type from major to minor.');
+      expect(mockCore.setOutput).toHaveBeenCalledWith('new-version', '0.4.0');
+      expect(mockCore.setOutput).toHaveBeenCalledWith('new-major-version', '0');
+    });
+
+    it('should not lower bump type when current version is 1.0.0 or higher', async () => {
+      mockGitHubClientInstance.getLatestReleaseTag.mockResolvedValue('v1.3.1');
+
+      await main('owner/repo', 'token', 'refs/heads/main', 'warn', '1.0.0', '-', { initialDevelopmentMode: true });
+
+      expect(mockGetInitialDevelopmentBumpType).not.toHaveBeenCalled();
+      expect(mockCore.setOutput).toHaveBeenCalledWith('new-version', '2.0.0');
+    });
+
+    it('should not lower bump type when mode is disabled', async () => {
+      mockGitHubClientInstance.getLatestReleaseTag.mockResolvedValue('v0.3.1');
+
+      await main('owner/repo', 'token', 'refs/heads/main', 'warn', '1.0.0', '-');
+
+      expect(mockGetInitialDevelopmentBumpType).not.toHaveBeenCalled();
+      expect(mockCore.setOutput).toHaveBeenCalledWith('new-version', '1.0.0');
+    });
+  });
+
   describe('version calculation', () => {
     beforeEach(() => {
       mockGitHubClientInstance.getLatestReleaseTag.mockResolvedValue('v2.5.10');
@@ -246,7 +469,68 @@ describe('main', () => {
       
       await main('myorg/myrepo', 'gh_token_123', 'refs/heads/main', 'warn', '1.0.0', '-');
       
-      expect(mockGitHubClient).toHaveBeenCalledWith('gh_token_123', 'myorg/myrepo');
+      expect(mockGitHubClient).toHaveBeenCalledWith('gh_token_123', 'myorg/myrepo', undefined);
+    });
+  });
+
+  describe('backend', () => {
+    it('should read tags and commits from local working copy with git backend', async () => {
+      const mockLocalGitClientInstance = {
+        getLatestReleaseTag: jest.fn(),
+        getListOfCommitsBetween: jest.fn(),
+        getDefaultBranchName: jest.fn(),
+      } as any as jest.Mocked<LocalGitClient>;
+      mockLocalGitClient.mockImplementation(() => mockLocalGitClientInstance);
+      mockLocalGitClientInstance.getLatestReleaseTag.mockResolvedValue('v1.2.3');
+      mockLocalGitClientInstance.getListOfCommitsBetween.mockResolvedValue([{ sha: 'abc123', message: 'fix: typo' }]);
+      mockLocalGitClientInstance.getDefaultBranchName.mockResolvedValue('main');
+      mockGetBumpTypeFromCommits.mockReturnValue(bumpDecision('patch'));
+
+      await main('owner/repo', 'token', 'refs/heads/main', 'warn', '1.0.0', '-', { backend: 'git' });
+
+      expect(mockGitHubClient).not.toHaveBeenCalled();
+      expect(mockLocalGitClientInstance.getListOfCommitsBetween).toHaveBeenCalledWith('v1.2.3', 'refs/heads/main', false);
+      expect(mockCore.setOutput).toHaveBeenCalledWith('new-version', '1.2.4');
+    });
+
+    it('should read tags and commits from Gitea API with gitea backend', async () => {
+      mockGiteaClient.mockImplementation(() => mockGitHubClientInstance as any);
+      mockGitHubClientInstance.getLatestReleaseTag.mockResolvedValue('v1.2.3');
+      mockGitHubClientInstance.getListOfCommitsBetween.mockResolvedValue([{ sha: 'abc123', message: 'fix: typo' }]);
+      mockGetBumpTypeFromCommits.mockReturnValue(bumpDecision('patch'));
+
+      await main('owner/repo', 'token', 'refs/heads/main', 'warn', '1.0.0', '-', { backend: 'gitea', apiUrl: 'https://gitea.example.com/api/v1' });
+
+      expect(mockGiteaClient).toHaveBeenCalledWith('token', 'owner/repo', 'https://gitea.example.com/api/v1');
+      expect(mockGitHubClient).not.toHaveBeenCalled();
+      expect(mockCore.setOutput).toHaveBeenCalledWith('new-version', '1.2.4');
+    });
+
+    it('should fail without API URL with gitea backend', async () => {
+      await main('owner/repo', 'token', 'refs/heads/main', 'warn', '1.0.0', '-', { backend: 'gitea' });
+
+      expect(mockCore.setFailed).toHaveBeenCalledWith('Invalid backend: the gitea backend requires the API URL.');
+    });
+
+    it('should pass API URL to GitHub client', async () => {
+      mockGitHubClientInstance.getLatestReleaseTag.mockResolvedValue(null);
+
+      await main('owner/repo', 'token', 'refs/heads/main', 'warn', '1.0.0', '-', { apiUrl: 'https://github.example.com/api/v3' });
+
+      expect(mockGitHubClient).toHaveBeenCalledWith('token', 'owner/repo', 'https://github.example.com/api/v3');
+    });
+
+    it('should fail with invalid backend', async () => {
+      await main('owner/repo', 'token', 'refs/heads/main', 'warn', '1.0.0', '-', { backend: 'svn' });
+
+      expect(mockCore.setFailed).toHaveBeenCalledWith('Invalid backend: Invalid Backend value: svn');
+    });
+
+    it('should fail when creating releases with git backend', async () => {
+      await main('owner/repo', 'token', 'refs/heads/main', 'warn', '1.0.0', '-', { backend: 'git', createRelease: true });
+
+      expect(mockCore.setFailed).toHaveBeenCalledWith('Invalid backend: creating releases and moving floating tags require the github backend.');
+      expect(mockLocalGitClient).not.toHaveBeenCalled();
     });
   });
 
@@ -259,7 +543,7 @@ describe('main', () => {
     it('should log debug information for commit retrieval', async () => {
       const commits: Commit[] = [{ sha: 'abc', message: 'test' }];
       mockGitHubClientInstance.getListOfCommitsBetween.mockResolvedValue(commits);
-      mockGetBumpTypeFromCommits.mockReturnValue('patch');
+      mockGetBumpTypeFromCommits.mockReturnValue(bumpDecision('patch'));
       mockSuffixWithPreRelease.mockReturnValue('1.0.1-abc1234');
       
       await main('owner/repo', 'token', 'refs/heads/feature-branch', 'warn', '1.0.0', '-');
@@ -281,7 +565,7 @@ describe('main', () => {
       await main('owner/repo', 'token', 'refs/heads/feature-branch', 'warn', '1.0.0', '-');
 
       expect(mockCore.info).toHaveBeenCalledWith('Target ref (refs/heads/feature-branch) is not the default branch ref (refs/heads/main). Suffixing version with pre-release identifier.');
-      expect(mockSuffixWithPreRelease).toHaveBeenCalledWith('1.0.1', '-');
+      expect(mockSuffixWithPreRelease).toHaveBeenCalledWith('1.0.1', '-', 'abc1234567890def');
       expect(mockCore.setOutput).toHaveBeenCalledWith('new-version', '1.0.1-abc1234');
     });
 
@@ -300,7 +584,7 @@ describe('main', () => {
       
       await main('owner/repo', 'token', 'refs/heads/develop', 'warn', '1.0.0', '.');
       
-      expect(mockSuffixWithPreRelease).toHaveBeenCalledWith('1.0.1', '.');
+      expect(mockSuffixWithPreRelease).toHaveBeenCalledWith('1.0.1', '.', 'abc1234567890def');
       expect(mockCore.setOutput).toHaveBeenCalledWith('new-version', '1.0.1.abc1234');
     });
 
@@ -311,8 +595,1130 @@ describe('main', () => {
       
       await main('owner/repo', 'token', 'refs/heads/feature-branch', 'warn', '2.0.0', '-');
       
-      expect(mockSuffixWithPreRelease).toHaveBeenCalledWith('2.0.0', '-');
+      expect(mockSuffixWithPreRelease).toHaveBeenCalledWith('2.0.0', '-', 'abc1234567890def');
       expect(mockCore.setOutput).toHaveBeenCalledWith('new-version', '2.0.0-abc1234');
     });
   });
+
+  describe('pre-release counter mode', () => {
+    beforeEach(() => {
+      mockGitHubClientInstance.getLatestReleaseTag.mockResolvedValue('v1.2.3');
+      mockGitHubClientInstance.getListOfCommitsBetween.mockResolvedValue([]);
+      mockGitHubClientInstance.getTagNames.mockResolvedValue(['v1.2.3', 'v1.2.4-rc.1']);
+      mockGetPreReleaseIdentifierForBranch.mockReturnValue('rc');
+      mockSuffixWithPreReleaseCounter.mockReturnValue('1.2.4-rc.2');
+    });
+
+    it('should suffix version with identifier and counter', async () => {
+      await main('owner/repo', 'token', 'refs/heads/release/1.2', 'warn', '1.0.0', '-', {
+        preReleaseMode: 'counter',
+        preReleaseIdentifier: 'release/*: rc',
+      });
+
+      expect(mockGetPreReleaseIdentifierForBranch).toHaveBeenCalledWith('refs/heads/release/1.2', { 'release/*': 'rc' });
+      expect(mockSuffixWithPreReleaseCounter).toHaveBeenCalledWith('1.2.4', 'rc', ['1.2.3', '1.2.4-rc.1']);
+      expect(mockSuffixWithPreRelease).not.toHaveBeenCalled();
+      expect(mockCore.setOutput).toHaveBeenCalledWith('new-version', '1.2.4-rc.2');
+    });
+
+    it('should not fetch tags on default branch', async () => {
+      await main('owner/repo', 'token', 'refs/heads/main', 'warn', '1.0.0', '-', { preReleaseMode: 'counter' });
+
+      expect(mockGitHubClientInstance.getTagNames).not.toHaveBeenCalled();
+      expect(mockCore.setOutput).toHaveBeenCalledWith('new-version', '1.2.4');
+    });
+
+    it('should fail for invalid pre-release mode', async () => {
+      await main('owner/repo', 'token', 'refs/heads/develop', 'warn', '1.0.0', '-', { preReleaseMode: 'random' });
+
+      expect(mockCore.setFailed).toHaveBeenCalledWith('Invalid pre-release configuration: Invalid PreReleaseMode value: random');
+    });
+  });
+
+  describe('pre-release template', () => {
+    beforeEach(() => {
+      mockGitHubClientInstance.getLatestReleaseTag.mockResolvedValue('v1.2.3');
+      mockGitHubClientInstance.getListOfCommitsBetween.mockResolvedValue([]);
+      mockGitHubClientInstance.getTagNames.mockResolvedValue(['v1.2.3', 'v1.2.4-rc.1']);
+      mockGetBranchNameFromRef.mockReturnValue('develop');
+      mockRenderPreReleaseTemplate.mockImplementation(template => template.startsWith('+') ? '+build.20260304050607' : '-develop.42.abc1234');
+      mockContext.runNumber = 42;
+      mockContext.payload = {};
+    });
+
+    it('should suffix version with rendered template instead of glue and SHA', async () => {
+      await main('owner/repo', 'token', 'refs/heads/develop', 'warn', '1.0.0', '-', { preReleaseTemplate: '{branch}.{run_number}.{sha7}' });
+
+      expect(mockValidatePreReleaseTemplate).toHaveBeenCalledWith('{branch}.{run_number}.{sha7}');
+      expect(mockRenderPreReleaseTemplate).toHaveBeenCalledWith('{branch}.{run_number}.{sha7}', {
+        branch: 'develop',
+        runNumber: 42,
+        pullRequestNumber: null,
+        sha: 'abc1234567890def',
+        timestamp: expect.any(Date),
+      });
+      expect(mockSuffixWithPreRelease).not.toHaveBeenCalled();
+      expect(mockCore.setOutput).toHaveBeenCalledWith('new-version', '1.2.4-develop.42.abc1234');
+    });
+
+    it('should use head branch and number of pull request', async () => {
+      mockContext.payload = { pull_request: { number: 7, head: { ref: 'feature/ABC_123' } } };
+
+      await main('owner/repo', 'token', 'refs/pull/7/merge', 'warn', '1.0.0', '-', { preReleaseTemplate: '{branch}.{pr_number}' });
+
+      expect(mockRenderPreReleaseTemplate.mock.calls[0][1]).toMatchObject({ branch: 'feature/ABC_123', pullRequestNumber: 7 });
+    });
+
+    it('should not render template on default branch', async () => {
+      await main('owner/repo', 'token', 'refs/heads/main', 'warn', '1.0.0', '-', { preReleaseTemplate: '{branch}.{sha7}' });
+
+      expect(mockRenderPreReleaseTemplate).not.toHaveBeenCalled();
+      expect(mockCore.setOutput).toHaveBeenCalledWith('new-version', '1.2.4');
+    });
+
+    it('should append build metadata in counter mode', async () => {
+      mockGetPreReleaseIdentifierForBranch.mockReturnValue('rc');
+      mockSuffixWithPreReleaseCounter.mockReturnValue('1.2.4-rc.2');
+
+      await main('owner/repo', 'token', 'refs/heads/develop', 'warn', '1.0.0', '-', {
+        preReleaseMode: 'counter',
+        preReleaseTemplate: '+build.{timestamp}',
+      });
+
+      expect(mockCore.setOutput).toHaveBeenCalledWith('new-version', '1.2.4-rc.2+build.20260304050607');
+    });
+
+    it('should fail for pre-release identifiers in counter mode', async () => {
+      await main('owner/repo', 'token', 'refs/heads/develop', 'warn', '1.0.0', '-', {
+        preReleaseMode: 'counter',
+        preReleaseTemplate: '{branch}',
+      });
+
+      expect(mockCore.setFailed).toHaveBeenCalledWith(
+        'Invalid pre-release configuration: Pre-release template ({branch}) may only contain build metadata starting with + in counter mode'
+      );
+    });
+
+    it('should fail for invalid template', async () => {
+      mockValidatePreReleaseTemplate.mockImplementationOnce(() => {
+        throw new Error('Pre-release template ({run_id}) contains unknown placeholder {run_id}');
+      });
+
+      await main('owner/repo', 'token', 'refs/heads/develop', 'warn', '1.0.0', '-', { preReleaseTemplate: '{run_id}' });
+
+      expect(mockCore.setFailed).toHaveBeenCalledWith(
+        'Invalid pre-release configuration: Pre-release template ({run_id}) contains unknown placeholder {run_id}'
+      );
+    });
+
+    it('should pass rendered template to packages', async () => {
+      mockGetPackageVersions.mockResolvedValue({});
+
+      await getNextVersion(mockGitHubClientInstance, 'refs/heads/develop', 'warn', '0.1.0', '-', {
+        packages: JSON.stringify([{ name: 'core', path: 'packages/core/' }]),
+        preReleaseTemplate: '{branch}.{run_number}.{sha7}',
+        commitSha: 'abc1234567890def',
+      });
+
+      expect(mockGetPackageVersions.mock.calls[0][3].preReleaseSuffix).toBe('-develop.42.abc1234');
+    });
+  });
+
+  describe('branch configuration', () => {
+    const branches = JSON.stringify([
+      { pattern: 'main', stable: true },
+      { pattern: '1.x', stable: true, line: '1.x' },
+      { pattern: 'next', channel: 'next' },
+    ]);
+
+    beforeEach(() => {
+      mockGitHubClientInstance.getLatestReleaseTag.mockResolvedValue('v1.2.3');
+      mockGitHubClientInstance.getListOfCommitsBetween.mockResolvedValue([]);
+      mockGitHubClientInstance.getTagNames.mockResolvedValue([]);
+      mockIsVersionWithinLine.mockReturnValue(true);
+    });
+
+    it('should not suffix version on stable branch', async () => {
+      mockGetBranchConfigForRef.mockReturnValue({ pattern: 'main', stable: true });
+
+      await main('owner/repo', 'token', 'refs/heads/main', 'warn', '1.0.0', '-', { branches });
+
+      expect(mockGetBranchConfigForRef).toHaveBeenCalledWith('refs/heads/main', JSON.parse(branches));
+      expect(mockGitHubClientInstance.getDefaultBranchName).not.toHaveBeenCalled();
+      expect(mockSuffixWithPreRelease).not.toHaveBeenCalled();
+      expect(mockCore.setOutput).toHaveBeenCalledWith('new-version', '1.2.4');
+    });
+
+    it('should suffix version with channel and counter on channel branch', async () => {
+      mockGetBranchConfigForRef.mockReturnValue({ pattern: 'next', channel: 'next' });
+      mockGitHubClientInstance.getTagNames.mockResolvedValue(['v1.2.4-next.1']);
+      mockSuffixWithPreReleaseCounter.mockReturnValue('1.2.4-next.2');
+
+      await main('owner/repo', 'token', 'refs/heads/next', 'warn', '1.0.0', '-', { branches });
+
+      expect(mockSuffixWithPreReleaseCounter).toHaveBeenCalledWith('1.2.4', 'next', ['1.2.4-next.1']);
+      expect(mockCore.setOutput).toHaveBeenCalledWith('new-version', '1.2.4-next.2');
+    });
+
+    it('should suffix version according to pre-release mode on branch without channel', async () => {
+      mockGetBranchConfigForRef.mockReturnValue({ pattern: 'feature/*' });
+
+      await main('owner/repo', 'token', 'refs/heads/feature/login', 'warn', '1.0.0', '-', { branches });
+
+      expect(mockSuffixWithPreRelease).toHaveBeenCalledWith('1.2.4', '-', 'abc1234567890def');
+      expect(mockCore.setOutput).toHaveBeenCalledWith('new-version', '1.2.4-abc1234');
+    });
+
+    it('should fall back to default branch when no pattern matches', async () => {
+      mockGetBranchConfigForRef.mockReturnValue(null);
+
+      await main('owner/repo', 'token', 'refs/heads/develop', 'warn', '1.0.0', '-', { branches });
+
+      expect(mockGitHubClientInstance.getDefaultBranchName).toHaveBeenCalled();
+      expect(mockSuffixWithPreRelease).toHaveBeenCalledWith('1.2.4', '-', 'abc1234567890def');
+    });
+
+    it('should use latest release within the release line', async () => {
+      mockGetBranchConfigForRef.mockReturnValue({ pattern: '1.x', stable: true, line: '1.x' });
+      mockGitHubClientInstance.getReleaseTagNames.mockResolvedValue(['v3.2.0', 'v1.4.1', 'v1.4.0', 'v2.0.0']);
+      mockGetHighestVersionTagWithinLine.mockReturnValue('v1.4.1');
+
+      await main('owner/repo', 'token', 'refs/heads/1.x', 'warn', '1.0.0', '-', { branches });
+
+      expect(mockGitHubClientInstance.getLatestReleaseTag).not.toHaveBeenCalled();
+      expect(mockGetHighestVersionTagWithinLine).toHaveBeenCalledWith(['v3.2.0', 'v1.4.1', 'v1.4.0', 'v2.0.0'], '1.x', '', '');
+      expect(mockGitHubClientInstance.getListOfCommitsBetween).toHaveBeenCalledWith('v1.4.1', 'refs/heads/1.x', false);
+      expect(mockCore.setOutput).toHaveBeenCalledWith('latest-release-tag', 'v1.4.1');
+      expect(mockCore.setOutput).toHaveBeenCalledWith('new-version', '1.4.2');
+    });
+
+    it('should fail when new version is out of the release line', async () => {
+      mockGetBranchConfigForRef.mockReturnValue({ pattern: '1.x', stable: true, line: '1.x' });
+      mockGitHubClientInstance.getReleaseTagNames.mockResolvedValue(['v2.0.0', 'v1.4.1']);
+      mockGetHighestVersionTagWithinLine.mockReturnValue('v1.4.1');
+      mockGetBumpTypeFromCommits.mockReturnValue(bumpDecision('major'));
+      mockGitHubClientInstance.getListOfCommitsBetween.mockResolvedValue([{ sha: 'abc123', message: 'feat!: breaking change' }]);
+      mockIsVersionWithinLine.mockReturnValue(false);
+
+      await main('owner/repo', 'token', 'refs/heads/1.x', 'warn', '1.0.0', '-', { branches });
+
+      expect(mockIsVersionWithinLine).toHaveBeenCalledWith('2.0.0', '1.x');
+      expect(mockCore.setFailed).toHaveBeenCalledWith("New version (2.0.0) is out of the release line (1.x) of branch pattern '1.x'.");
+      expect(mockCore.setOutput).not.toHaveBeenCalledWith('new-version', expect.anything());
+    });
+
+    it('should pass channel of branch to packages', async () => {
+      mockGetBranchConfigForRef.mockReturnValue({ pattern: 'next', channel: 'next' });
+      mockGetPackageVersions.mockResolvedValue({});
+
+      await getNextVersion(mockGitHubClientInstance, 'refs/heads/next', 'warn', '0.1.0', '-', {
+        branches,
+        packages: JSON.stringify([{ name: 'core', path: 'packages/core/' }]),
+      });
+
+      expect(mockGetPackageVersions.mock.calls[0][3].preReleaseCounterIdentifier).toBe('next');
+    });
+
+    it('should pass pre-release identifier of counter mode to packages', async () => {
+      mockGetBranchConfigForRef.mockReturnValue(null);
+      mockGetPreReleaseIdentifierForBranch.mockReturnValue('rc');
+      mockGetPackageVersions.mockResolvedValue({});
+
+      await getNextVersion(mockGitHubClientInstance, 'refs/heads/release/1.2', 'warn', '0.1.0', '-', {
+        packages: JSON.stringify([{ name: 'core', path: 'packages/core/' }]),
+        preReleaseMode: 'counter',
+      });
+
+      expect(mockGetPackageVersions.mock.calls[0][3].preReleaseCounterIdentifier).toBe('rc');
+    });
+
+    it('should not pass channel to packages on stable branch', async () => {
+      mockGetBranchConfigForRef.mockReturnValue({ pattern: 'main', stable: true, channel: 'next' });
+      mockGetPackageVersions.mockResolvedValue({});
+
+      await getNextVersion(mockGitHubClientInstance, 'refs/heads/main', 'warn', '0.1.0', '-', {
+        branches,
+        packages: JSON.stringify([{ name: 'core', path: 'packages/core/' }]),
+      });
+
+      expect(mockGetPackageVersions.mock.calls[0][3].preReleaseCounterIdentifier).toBeNull();
+    });
+
+    it('should fail for pre-release identifiers in template with packages on channel branch', async () => {
+      mockGetBranchConfigForRef.mockReturnValue({ pattern: 'next', channel: 'next' });
+
+      await expect(getNextVersion(mockGitHubClientInstance, 'refs/heads/next', 'warn', '0.1.0', '-', {
+        branches,
+        packages: JSON.stringify([{ name: 'core', path: 'packages/core/' }]),
+        preReleaseTemplate: '{branch}',
+      })).rejects.toThrow('Invalid pre-release configuration: Pre-release template ({branch}) may only contain build metadata starting with + on branches with a pre-release channel');
+      expect(mockGetPackageVersions).not.toHaveBeenCalled();
+    });
+
+    it('should fail for invalid branches configuration', async () => {
+      await main('owner/repo', 'token', 'refs/heads/main', 'warn', '1.0.0', '-', { branches: '{}' });
+
+      expect(mockCore.setFailed).toHaveBeenCalledWith('Invalid branches configuration: Invalid BranchConfig value, expected an array: {}');
+    });
+  });
+
+  describe('version source', () => {
+    beforeEach(() => {
+      mockGitHubClientInstance.getListOfCommitsBetween.mockResolvedValue([]);
+    });
+
+    it('should use latest release by default', async () => {
+      mockGitHubClientInstance.getLatestReleaseTag.mockResolvedValue('v1.2.3');
+
+      await main('owner/repo', 'token', 'refs/heads/main', 'warn', '1.0.0', '-');
+
+      expect(mockGitHubClientInstance.getLatestVersionTag).not.toHaveBeenCalled();
+      expect(mockCore.setOutput).toHaveBeenCalledWith('latest-release-tag', 'v1.2.3');
+    });
+
+    it('should use highest version tag when version source is tag', async () => {
+      mockGitHubClientInstance.getLatestVersionTag.mockResolvedValue('v2.4.0');
+
+      await main('owner/repo', 'token', 'refs/heads/main', 'warn', '1.0.0', '-', { versionSource: 'tag' });
+
+      expect(mockGitHubClientInstance.getLatestReleaseTag).not.toHaveBeenCalled();
+      expect(mockCore.setOutput).toHaveBeenCalledWith('latest-release-tag', 'v2.4.0');
+      expect(mockCore.setOutput).toHaveBeenCalledWith('new-version', '2.4.1');
+    });
+
+    it('should use tags within the release line when version source is tag', async () => {
+      mockGetBranchConfigForRef.mockReturnValue({ pattern: '1.x', stable: true, line: '1.x' });
+      mockIsVersionWithinLine.mockReturnValue(true);
+      mockGitHubClientInstance.getTagNames.mockResolvedValue(['v2.0.0', 'v1.4.1']);
+      mockGetHighestVersionTagWithinLine.mockReturnValue('v1.4.1');
+
+      await main('owner/repo', 'token', 'refs/heads/1.x', 'warn', '1.0.0', '-', { versionSource: 'tag' });
+
+      expect(mockGitHubClientInstance.getReleaseTagNames).not.toHaveBeenCalled();
+      expect(mockGetHighestVersionTagWithinLine).toHaveBeenCalledWith(['v2.0.0', 'v1.4.1'], '1.x', '', '');
+      expect(mockCore.setOutput).toHaveBeenCalledWith('new-version', '1.4.2');
+    });
+
+    it('should fail for invalid version source', async () => {
+      await main('owner/repo', 'token', 'refs/heads/main', 'warn', '1.0.0', '-', { versionSource: 'branch' });
+
+      expect(mockCore.setFailed).toHaveBeenCalledWith('Invalid version source: Invalid VersionSource value: branch');
+    });
+  });
+
+  describe('tag pattern', () => {
+    beforeEach(() => {
+      mockGitHubClientInstance.getListOfCommitsBetween.mockResolvedValue([]);
+    });
+
+    it('should set new tag in default format', async () => {
+      mockGitHubClientInstance.getLatestReleaseTag.mockResolvedValue('1.2.3');
+
+      await main('owner/repo', 'token', 'refs/heads/main', 'warn', '1.0.0', '-');
+
+      expect(mockCore.setOutput).toHaveBeenCalledWith('new-version', '1.2.4');
+      expect(mockCore.setOutput).toHaveBeenCalledWith('new-tag', 'v1.2.4');
+    });
+
+    it('should select and parse latest release tag matching the pattern', async () => {
+      mockGitHubClientInstance.getReleaseTagNames.mockResolvedValue(['other-lib@3.0.0', 'my-lib@1.2.3', 'my-lib@1.1.0']);
+      mockGetHighestVersionTagWithinLine.mockReturnValue('my-lib@1.2.3');
+
+      await main('owner/repo', 'token', 'refs/heads/main', 'warn', '1.0.0', '-', {
+        tagPattern: '{package}@{version}',
+        packageName: 'my-lib',
+      });
+
+      expect(mockGitHubClientInstance.getLatestReleaseTag).not.toHaveBeenCalled();
+      expect(mockGetHighestVersionTagWithinLine).toHaveBeenCalledWith(
+        ['other-lib@3.0.0', 'my-lib@1.2.3', 'my-lib@1.1.0'], '*', '{package}@{version}', 'my-lib'
+      );
+      expect(mockGitHubClientInstance.getListOfCommitsBetween).toHaveBeenCalledWith('my-lib@1.2.3', 'refs/heads/main', false);
+      expect(mockCore.setOutput).toHaveBeenCalledWith('current-version', '1.2.3');
+      expect(mockCore.setOutput).toHaveBeenCalledWith('new-version', '1.2.4');
+      expect(mockCore.setOutput).toHaveBeenCalledWith('new-tag', 'my-lib@1.2.4');
+    });
+
+    it('should render new tag with prefix for initial version', async () => {
+      mockGitHubClientInstance.getTagNames.mockResolvedValue([]);
+      mockGetHighestVersionTagWithinLine.mockReturnValue(null);
+
+      await main('owner/repo', 'token', 'refs/heads/main', 'warn', '0.1.0', '-', {
+        versionSource: 'tag',
+        tagPattern: 'api/v{version}',
+      });
+
+      expect(mockCore.setOutput).toHaveBeenCalledWith('new-tag', 'api/v0.1.0');
+    });
+
+    it('should fail for tag pattern without version placeholder', async () => {
+      await main('owner/repo', 'token', 'refs/heads/main', 'warn', '1.0.0', '-', { tagPattern: 'release' });
+
+      expect(mockCore.setFailed).toHaveBeenCalledWith('Invalid tag pattern: Tag pattern (release) must contain {version} exactly once');
+    });
+  });
+
+  describe('path filtering', () => {
+    const commits: Commit[] = [
+      { sha: 'abc123', message: 'feat(api): new endpoint', files: ['packages/api/src/index.ts'] },
+      { sha: 'def456', message: 'fix(web): fix layout', files: ['packages/web/src/App.tsx'] },
+    ];
+
+    beforeEach(() => {
+      mockGitHubClientInstance.getLatestReleaseTag.mockResolvedValue('v1.2.3');
+      mockGitHubClientInstance.getListOfCommitsBetween.mockResolvedValue(commits);
+    });
+
+    it('should analyze only commits changing files matching the paths', async () => {
+      mockFilterCommitsByPaths.mockReturnValue([commits[1]]);
+      mockGetBumpTypeFromCommits.mockReturnValue(bumpDecision('patch'));
+
+      await main('owner/repo', 'token', 'refs/heads/main', 'warn', '1.0.0', '-', { paths: ['packages/web/**'] });
+
+      expect(mockGitHubClientInstance.getListOfCommitsBetween).toHaveBeenCalledWith('v1.2.3', 'refs/heads/main', true);
+      expect(mockFilterCommitsByPaths).toHaveBeenCalledWith(commits, ['packages/web/**'], actionsLogger);
+      expect(mockGetBumpTypeFromCommits).toHaveBeenCalledWith([commits[1]], NotConventionalCommitsReaction.WARN, DEFAULT_BUMP_MAPPING, actionsLogger);
+      expect(mockGenerateChangelog).toHaveBeenCalledWith([commits[1]]);
+      expect(mockCore.setOutput).toHaveBeenCalledWith('new-version', '1.2.4');
+    });
+
+    it('should treat no matching commits as no new commits', async () => {
+      mockFilterCommitsByPaths.mockReturnValue([]);
+
+      await main('owner/repo', 'token', 'refs/heads/main', 'warn', '1.0.0', '-', {
+        paths: ['packages/docs/**'],
+        skipReleaseWhenNotNeeded: true,
+      });
+
+      expect(mockCore.info).toHaveBeenCalledWith('No new commits found since the latest release.');
+      expect(mockCore.setOutput).toHaveBeenCalledWith('release-needed', 'false');
+    });
+
+    it('should not fetch changed files without paths', async () => {
+      await main('owner/repo', 'token', 'refs/heads/main', 'warn', '1.0.0', '-');
+
+      expect(mockGitHubClientInstance.getListOfCommitsBetween).toHaveBeenCalledWith('v1.2.3', 'refs/heads/main', false);
+      expect(mockFilterCommitsByPaths).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('scope filtering', () => {
+    const commits: Commit[] = [
+      { sha: 'abc123', message: 'feat(api): new endpoint' },
+      { sha: 'def456', message: 'chore(deps-dev): bump jest' },
+    ];
+
+    beforeEach(() => {
+      mockGitHubClientInstance.getLatestReleaseTag.mockResolvedValue('v1.2.3');
+      mockGitHubClientInstance.getListOfCommitsBetween.mockResolvedValue(commits);
+    });
+
+    it('should analyze only commits with scopes matching the scopes', async () => {
+      mockFilterCommitsByScopes.mockReturnValue([commits[0]]);
+      mockGetBumpTypeFromCommits.mockReturnValue(bumpDecision('minor'));
+
+      await main('owner/repo', 'token', 'refs/heads/main', 'warn', '1.0.0', '-', { scopes: ['!deps-dev'] });
+
+      expect(mockGitHubClientInstance.getListOfCommitsBetween).toHaveBeenCalledWith('v1.2.3', 'refs/heads/main', false);
+      expect(mockFilterCommitsByScopes).toHaveBeenCalledWith(commits, ['!deps-dev'], actionsLogger);
+      expect(mockGetBumpTypeFromCommits).toHaveBeenCalledWith([commits[0]], NotConventionalCommitsReaction.WARN, DEFAULT_BUMP_MAPPING, actionsLogger);
+      expect(mockGenerateChangelog).toHaveBeenCalledWith([commits[0]]);
+      expect(mockCore.setOutput).toHaveBeenCalledWith('new-version', '1.3.0');
+    });
+
+    it('should not filter commits without scopes', async () => {
+      await main('owner/repo', 'token', 'refs/heads/main', 'warn', '1.0.0', '-');
+
+      expect(mockFilterCommitsByScopes).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('multi-package mode', () => {
+    const packages = JSON.stringify([
+      { name: 'core', path: 'packages/core/' },
+      { name: 'api', path: 'packages/api/', dependencies: ['core'] },
+    ]);
+
+    const packageVersions = {
+      core: {
+        latestReleaseTag: 'core@1.0.0',
+        currentVersion: '1.0.0',
+        newVersion: '1.0.0',
+        newTag: 'core@1.0.0',
+        bumpType: '',
+        releaseNeeded: false,
+        changelog: '',
+      },
+      api: {
+        latestReleaseTag: 'api@1.3.0',
+        currentVersion: '1.3.0',
+        newVersion: '1.4.0',
+        newTag: 'api@1.4.0',
+        bumpType: 'minor',
+        releaseNeeded: true,
+        changelog: '### Features\n\n- add endpoint (abc1234)',
+      },
+    };
+
+    it('should determine versions of all packages', async () => {
+      mockGetPackageVersions.mockResolvedValue(packageVersions);
+
+      await main('owner/repo', 'token', 'refs/heads/main', 'warn', '0.1.0', '-', {
+        packages,
+        versionSource: 'tag',
+        skipReleaseWhenNotNeeded: true,
+        bumpDependents: true,
+      });
+
+      expect(mockGetPackageVersions).toHaveBeenCalledWith(
+        mockGitHubClientInstance,
+        'refs/heads/main',
+        [
+          { name: 'core', paths: ['packages/core/'] },
+          { name: 'api', paths: ['packages/api/'], dependencies: ['core'] },
+        ],
+        {
+          notConventionalCommitsReaction: NotConventionalCommitsReaction.WARN,
+          bumpMapping: DEFAULT_BUMP_MAPPING,
+          initReleaseVersion: '0.1.0',
+          versionSource: VersionSource.TAG,
+          tagPattern: '',
+          scopes: [],
+          line: null,
+          skipReleaseWhenNotNeeded: true,
+          initialDevelopmentMode: false,
+          bumpDependents: true,
+          preReleaseVersionGlue: null,
+          commitSha: null,
+          preReleaseSuffix: null,
+          preReleaseCounterIdentifier: null,
+        },
+        actionsLogger
+      );
+      expect(mockGitHubClientInstance.getLatestReleaseTag).not.toHaveBeenCalled();
+      expect(mockCore.setOutput).toHaveBeenCalledWith('packages', JSON.stringify(packageVersions));
+      expect(mockCore.setOutput).toHaveBeenCalledWith('release-needed', 'true');
+      expect(mockCore.setOutput).not.toHaveBeenCalledWith('new-version', expect.anything());
+      expect(mockCreateTagAndRelease).not.toHaveBeenCalled();
+    });
+
+    it('should create releases of packages which need a release', async () => {
+      mockGetPackageVersions.mockResolvedValue(packageVersions);
+      mockGitHubClientInstance.getCommitSha.mockResolvedValue('abc1234567890def');
+
+      await main('owner/repo', 'token', 'refs/heads/main', 'warn', '0.1.0', '-', { packages, createRelease: true });
+
+      expect(mockCreateTagAndRelease).toHaveBeenCalledTimes(1);
+      expect(mockCreateTagAndRelease).toHaveBeenCalledWith(
+        mockGitHubClientInstance,
+        'api@1.4.0',
+        'abc1234567890def',
+        '### Features\n\n- add endpoint (abc1234)',
+        false,
+        false
+      );
+    });
+
+    it('should move floating tags of released packages', async () => {
+      mockGetPackageVersions.mockResolvedValue(packageVersions);
+      mockGitHubClientInstance.getCommitSha.mockResolvedValue('abc1234567890def');
+
+      mockGetPackageTagPattern.mockReturnValue('{package}@{version}');
+
+      await main('owner/repo', 'token', 'refs/heads/main', 'warn', '0.1.0', '-', { packages, updateMajorTag: true });
+
+      expect(mockCreateTagAndRelease).not.toHaveBeenCalled();
+      expect(mockMoveFloatingTags).toHaveBeenCalledTimes(1);
+      expect(mockGetPackageTagPattern).toHaveBeenCalledWith({ name: 'api', paths: ['packages/api/'], dependencies: ['core'] }, '');
+      expect(mockMoveFloatingTags).toHaveBeenCalledWith(mockGitHubClientInstance, ['api@1'], 'abc1234567890def');
+    });
+
+    it('should not move floating tags of packages back to older releases', async () => {
+      mockGetPackageVersions.mockResolvedValue(packageVersions);
+      mockGitHubClientInstance.getCommitSha.mockResolvedValue('abc1234567890def');
+      mockGitHubClientInstance.getTagNames.mockResolvedValue(['api@1.3.0', 'api@1.5.0']);
+      mockGetPackageTagPattern.mockReturnValue('{package}@{version}');
+
+      await main('owner/repo', 'token', 'refs/heads/main', 'warn', '0.1.0', '-', { packages, updateMajorTag: true, updateMinorTag: true });
+
+      expect(mockMoveFloatingTags).toHaveBeenCalledTimes(1);
+      expect(mockMoveFloatingTags).toHaveBeenCalledWith(mockGitHubClientInstance, ['api@1.4'], 'abc1234567890def');
+    });
+
+    it('should pass pre-release glue on non-default branch', async () => {
+      mockGetPackageVersions.mockResolvedValue(packageVersions);
+
+      await main('owner/repo', 'token', 'refs/heads/develop', 'warn', '0.1.0', '+dev', { packages });
+
+      expect(mockGetPackageVersions.mock.calls[0][3].preReleaseVersionGlue).toBe('+dev');
+      expect(mockGetPackageVersions.mock.calls[0][3].commitSha).toBe('abc1234567890def');
+    });
+
+    it('should fail when versions cannot be determined', async () => {
+      mockGetPackageVersions.mockRejectedValue(new Error('Tag pattern (latest) must contain {version} exactly once'));
+
+      await main('owner/repo', 'token', 'refs/heads/main', 'warn', '0.1.0', '-', { packages });
+
+      expect(mockCore.setFailed).toHaveBeenCalledWith(
+        'Failed to determine versions of packages: Tag pattern (latest) must contain {version} exactly once'
+      );
+    });
+
+    it('should fail for invalid packages configuration', async () => {
+      await main('owner/repo', 'token', 'refs/heads/main', 'warn', '0.1.0', '-', { packages: '[{"name": "core"}]' });
+
+      expect(mockCore.setFailed).toHaveBeenCalledWith(
+        "Invalid packages configuration: Invalid PackageConfig entry for package 'core', path or paths is required"
+      );
+    });
+  });
+
+  describe('release creation', () => {
+    const release = { id: 1, tagName: 'v1.2.4', url: 'https://github.com/owner/repo/releases/tag/v1.2.4' };
+
+    beforeEach(() => {
+      mockGitHubClientInstance.getLatestReleaseTag.mockResolvedValue('v1.2.3');
+      mockGitHubClientInstance.getListOfCommitsBetween.mockResolvedValue([{ sha: 'abc123', message: 'fix: bug fix' }]);
+      mockGitHubClientInstance.getCommitSha.mockResolvedValue('abc1234567890def');
+      mockGetBumpTypeFromCommits.mockReturnValue(bumpDecision('patch'));
+      mockGenerateChangelog.mockReturnValue('### Bug Fixes\n\n- bug fix (abc123)');
+      mockCreateTagAndRelease.mockResolvedValue(release);
+    });
+
+    it('should create tag and release of the new version', async () => {
+      await main('owner/repo', 'token', 'refs/heads/main', 'warn', '1.0.0', '-', { createRelease: true });
+
+      expect(mockGitHubClientInstance.getCommitSha).toHaveBeenCalledWith('refs/heads/main');
+      expect(mockCreateTagAndRelease).toHaveBeenCalledWith(
+        mockGitHubClientInstance,
+        'v1.2.4',
+        'abc1234567890def',
+        '### Bug Fixes\n\n- bug fix (abc123)',
+        false,
+        false
+      );
+      expect(mockCore.setOutput).toHaveBeenCalledWith('release-url', release.url);
+    });
+
+    it('should fail without creating release for commit not in conventional-commits format on error', async () => {
+      const actualLogic = jest.requireActual<typeof import('../logic')>('../logic');
+      mockGetBumpTypeFromCommits.mockImplementation(actualLogic.getBumpTypeFromCommits);
+      mockGitHubClientInstance.getListOfCommitsBetween.mockResolvedValue([
+        { sha: 'abc123', message: 'fix: bug fix' },
+        { sha: 'def456', message: 'random junk' },
+      ]);
+
+      await main('owner/repo', 'token', 'refs/heads/main', 'error', '1.0.0', '-', { createRelease: true, updateMajorTag: true });
+
+      expect(mockCore.setFailed).toHaveBeenCalledWith("Commit message not in conventional-commits format: 'random junk'");
+      expect(mockCore.setOutput).not.toHaveBeenCalledWith('new-version', expect.anything());
+      expect(mockBumpVersionInFiles).not.toHaveBeenCalled();
+      expect(mockCreateTagAndRelease).not.toHaveBeenCalled();
+      expect(mockMoveFloatingTags).not.toHaveBeenCalled();
+    });
+
+    it('should fail when commit of target branch cannot be looked up', async () => {
+      mockGitHubClientInstance.getCommitSha.mockRejectedValue(new Error('Branch not found'));
+
+      await main('owner/repo', 'token', 'refs/heads/main', 'warn', '1.0.0', '-', { createRelease: true });
+
+      expect(mockCore.setFailed).toHaveBeenCalledWith('Failed to get the commit of refs/heads/main: Branch not found');
+      expect(mockCreateTagAndRelease).not.toHaveBeenCalled();
+    });
+
+    it('should create draft pre-release on non-default branch', async () => {
+      await main('owner/repo', 'token', 'refs/heads/develop', 'warn', '1.0.0', '-', { createRelease: true, releaseDraft: true });
+
+      expect(mockCreateTagAndRelease).toHaveBeenCalledWith(
+        mockGitHubClientInstance,
+        'v1.2.4-abc1234',
+        'abc1234567890def',
+        '### Bug Fixes\n\n- bug fix (abc123)',
+        true,
+        true
+      );
+    });
+
+    it('should not create release when not requested', async () => {
+      await main('owner/repo', 'token', 'refs/heads/main', 'warn', '1.0.0', '-');
+
+      expect(mockCreateTagAndRelease).not.toHaveBeenCalled();
+      expect(mockCore.setOutput).not.toHaveBeenCalledWith('release-url', expect.anything());
+    });
+
+    it('should not create release when no release is needed', async () => {
+      mockGetBumpTypeFromCommits.mockReturnValue(bumpDecision(null));
+
+      await main('owner/repo', 'token', 'refs/heads/main', 'warn', '1.0.0', '-', {
+        createRelease: true,
+        skipReleaseWhenNotNeeded: true,
+      });
+
+      expect(mockCreateTagAndRelease).not.toHaveBeenCalled();
+    });
+
+    it('should not create release of patch bump when no commit requires a release', async () => {
+      mockGetBumpTypeFromCommits.mockReturnValue(bumpDecision(null));
+
+      await main('owner/repo', 'token', 'refs/heads/main', 'warn', '1.0.0', '-', { createRelease: true });
+
+      expect(mockCore.setOutput).toHaveBeenCalledWith('new-version', '1.2.4');
+      expect(mockCreateTagAndRelease).not.toHaveBeenCalled();
+    });
+
+    it('should fail when release cannot be created', async () => {
+      mockCreateTagAndRelease.mockRejectedValue(new Error('Tag v1.2.4 already exists and points to another commit (def456).'));
+
+      await main('owner/repo', 'token', 'refs/heads/main', 'warn', '1.0.0', '-', { createRelease: true });
+
+      expect(mockCore.setFailed).toHaveBeenCalledWith(
+        'Failed to create release v1.2.4: Tag v1.2.4 already exists and points to another commit (def456).'
+      );
+    });
+  });
+
+  describe('floating tags', () => {
+    beforeEach(() => {
+      mockGitHubClientInstance.getLatestReleaseTag.mockResolvedValue('v1.2.3');
+      mockGitHubClientInstance.getListOfCommitsBetween.mockResolvedValue([{ sha: 'abc123', message: 'feat: new feature' }]);
+      mockGitHubClientInstance.getCommitSha.mockResolvedValue('abc1234567890def');
+      mockGetBumpTypeFromCommits.mockReturnValue(bumpDecision('minor'));
+      mockMoveFloatingTags.mockResolvedValue(undefined);
+    });
+
+    it('should move major and minor tags of stable version', async () => {
+      await main('owner/repo', 'token', 'refs/heads/main', 'warn', '1.0.0', '-', { updateMajorTag: true, updateMinorTag: true });
+
+      expect(mockMoveFloatingTags).toHaveBeenCalledWith(mockGitHubClientInstance, ['v1', 'v1.3'], 'abc1234567890def');
+      expect(mockCreateTagAndRelease).not.toHaveBeenCalled();
+    });
+
+    it('should render floating tags with the tag pattern', async () => {
+      mockGitHubClientInstance.getTagNames.mockResolvedValue(['api/v1.2.3']);
+      mockGetHighestVersionTagWithinLine.mockReturnValue('api/v1.2.3');
+
+      await main('owner/repo', 'token', 'refs/heads/main', 'warn', '1.0.0', '-', {
+        versionSource: 'tag',
+        tagPattern: 'api/v{version}',
+        updateMajorTag: true,
+      });
+
+      expect(mockMoveFloatingTags).toHaveBeenCalledWith(mockGitHubClientInstance, ['api/v1'], 'abc1234567890def');
+    });
+
+    it('should not move floating tags back to releases of maintenance branches', async () => {
+      mockGetBranchConfigForRef.mockReturnValue({ pattern: '1.2.x', stable: true, line: '1.2.x' });
+      mockGitHubClientInstance.getReleaseTagNames.mockResolvedValue(['v1.3.0', 'v1.2.4']);
+      mockGitHubClientInstance.getTagNames.mockResolvedValue(['v1.3.0', 'v1.2.4', 'v1.3.1-rc.1']);
+      mockGetHighestVersionTagWithinLine.mockReturnValue('v1.2.4');
+      mockGetBumpTypeFromCommits.mockReturnValue(bumpDecision('patch'));
+      mockIsVersionWithinLine.mockReturnValue(true);
+
+      await main('owner/repo', 'token', 'refs/heads/1.2.x', 'warn', '1.0.0', '-', {
+        branches: JSON.stringify([{ pattern: '1.2.x', stable: true, line: '1.2.x' }]),
+        updateMajorTag: true,
+        updateMinorTag: true,
+      });
+
+      expect(mockCore.setOutput).toHaveBeenCalledWith('new-version', '1.2.5');
+      expect(mockMoveFloatingTags).toHaveBeenCalledWith(mockGitHubClientInstance, ['v1.2'], 'abc1234567890def');
+    });
+
+    it('should not move floating tags of pre-release versions', async () => {
+      await main('owner/repo', 'token', 'refs/heads/develop', 'warn', '1.0.0', '+dev', { updateMajorTag: true });
+
+      expect(mockCore.setOutput).toHaveBeenCalledWith('new-version', '1.3.0+devabc1234');
+      expect(mockMoveFloatingTags).not.toHaveBeenCalled();
+      expect(mockGitHubClientInstance.getCommitSha).not.toHaveBeenCalled();
+    });
+
+    it('should not move floating tags when no release is needed', async () => {
+      mockGetBumpTypeFromCommits.mockReturnValue(bumpDecision(null));
+
+      await main('owner/repo', 'token', 'refs/heads/main', 'warn', '1.0.0', '-', {
+        updateMajorTag: true,
+        skipReleaseWhenNotNeeded: true,
+      });
+
+      expect(mockMoveFloatingTags).not.toHaveBeenCalled();
+    });
+
+    it('should fail when floating tags cannot be moved', async () => {
+      mockMoveFloatingTags.mockRejectedValue(new Error('Resource not accessible by integration'));
+
+      await main('owner/repo', 'token', 'refs/heads/main', 'warn', '1.0.0', '-', { updateMajorTag: true });
+
+      expect(mockCore.setFailed).toHaveBeenCalledWith('Failed to move floating tags (v1): Resource not accessible by integration');
+    });
+  });
+
+  describe('bump decision', () => {
+    const decision: BumpDecision = {
+      bumpType: 'major',
+      considered: [
+        { sha: 'abc1234567', subject: 'feat!: drop node 18', type: 'feat', breaking: true, bumpLevel: BumpLevel.MAJOR },
+      ],
+      ignored: [
+        { sha: 'def4567890', subject: 'Merge pull request #1 from user/branch', type: null, breaking: false, bumpLevel: BumpLevel.NONE },
+      ],
+      nonConventional: [],
+      trigger: { sha: 'abc1234567', subject: 'feat!: drop node 18', type: 'feat', breaking: true, bumpLevel: BumpLevel.MAJOR },
+    };
+
+    beforeEach(() => {
+      mockGitHubClientInstance.getLatestReleaseTag.mockResolvedValue('v1.2.3');
+      mockGitHubClientInstance.getListOfCommitsBetween.mockResolvedValue([
+        { sha: 'abc1234567', message: 'feat!: drop node 18' },
+        { sha: 'def4567890', message: 'Merge pull request #1 from user/branch' },
+      ]);
+      mockGetBumpTypeFromCommits.mockReturnValue(decision);
+    });
+
+    it('should output the bump decision and write job summary', async () => {
+      await main('owner/repo', 'token', 'refs/heads/main', 'warn', '1.0.0', '-');
+
+      expect(mockCore.info).toHaveBeenCalledWith('Bump type major triggered by commit abc1234567: feat!: drop node 18');
+      expect(mockCore.setOutput).toHaveBeenCalledWith('new-version', '2.0.0');
+      expect(mockCore.setOutput).toHaveBeenCalledWith('bump-decision', JSON.stringify(decision));
+      expect(mockWriteBumpDecisionSummary).toHaveBeenCalledWith(decision, '1.2.3', '2.0.0', true);
+    });
+
+    it('should output empty bump decision without commits', async () => {
+      mockGitHubClientInstance.getListOfCommitsBetween.mockResolvedValue([]);
+
+      await main('owner/repo', 'token', 'refs/heads/main', 'warn', '1.0.0', '-', { skipReleaseWhenNotNeeded: true });
+
+      expect(mockCore.setOutput).toHaveBeenCalledWith('bump-decision', JSON.stringify(bumpDecision(null)));
+      expect(mockWriteBumpDecisionSummary).toHaveBeenCalledWith(bumpDecision(null), '1.2.3', '1.2.3', false);
+    });
+  });
+
+  describe('bump files', () => {
+    beforeEach(() => {
+      mockGitHubClientInstance.getLatestReleaseTag.mockResolvedValue('v1.2.3');
+      mockGitHubClientInstance.getListOfCommitsBetween.mockResolvedValue([{ sha: 'abc123', message: 'fix: bug fix' }]);
+      mockGetBumpTypeFromCommits.mockReturnValue(bumpDecision('patch'));
+      mockBumpVersionInFiles.mockImplementation(async bumpFiles => bumpFiles.map(bumpFile => bumpFile.path));
+    });
+
+    it('should write new version into bump files', async () => {
+      await main('owner/repo', 'token', 'refs/heads/main', 'warn', '1.0.0', '-', {
+        bumpFiles: ['package.json', 'python/pyproject.toml', '', 'RELEASE: text'],
+      });
+
+      expect(mockBumpVersionInFiles).toHaveBeenCalledWith(
+        [
+          { path: 'package.json', format: BumpFileFormat.PACKAGE_JSON },
+          { path: 'python/pyproject.toml', format: BumpFileFormat.PYPROJECT },
+          { path: 'RELEASE', format: BumpFileFormat.TEXT },
+        ],
+        '1.2.4',
+        true
+      );
+      expect(mockCore.setOutput).toHaveBeenCalledWith('bumped-files', JSON.stringify(['package.json', 'python/pyproject.toml', 'RELEASE']));
+    });
+
+    it('should not write bump files when no release is needed', async () => {
+      mockGetBumpTypeFromCommits.mockReturnValue(bumpDecision(null));
+
+      await main('owner/repo', 'token', 'refs/heads/main', 'warn', '1.0.0', '-', {
+        bumpFiles: ['package.json'],
+        skipReleaseWhenNotNeeded: true,
+      });
+
+      expect(mockBumpVersionInFiles).not.toHaveBeenCalled();
+      expect(mockCore.setOutput).not.toHaveBeenCalledWith('bumped-files', expect.anything());
+    });
+
+    it('should fail for file of unknown format', async () => {
+      await main('owner/repo', 'token', 'refs/heads/main', 'warn', '1.0.0', '-', { bumpFiles: ['build.gradle'] });
+
+      expect(mockCore.setFailed).toHaveBeenCalledWith(
+        "Invalid bump files: Cannot infer the format of file build.gradle, give it as 'build.gradle: format'"
+      );
+      expect(mockGitHubClientInstance.getLatestReleaseTag).not.toHaveBeenCalled();
+    });
+
+    it('should fail when file has no version field', async () => {
+      mockBumpVersionInFiles.mockRejectedValue(new Error('No version field found in package.json'));
+
+      await main('owner/repo', 'token', 'refs/heads/main', 'warn', '1.0.0', '-', { bumpFiles: ['package.json'], createRelease: true });
+
+      expect(mockCore.setFailed).toHaveBeenCalledWith('Failed to write version into bump files: No version field found in package.json');
+      expect(mockCreateTagAndRelease).not.toHaveBeenCalled();
+    });
+
+    it('should write new versions of released packages into their bump files', async () => {
+      mockGetPackageVersions.mockResolvedValue({
+        core: { latestReleaseTag: 'core@1.0.0', currentVersion: '1.0.0', newVersion: '1.0.0', newTag: 'core@1.0.0', bumpType: '', releaseNeeded: false, changelog: '' },
+        api: { latestReleaseTag: 'api@1.3.0', currentVersion: '1.3.0', newVersion: '1.4.0', newTag: 'api@1.4.0', bumpType: 'minor', releaseNeeded: true, changelog: '' },
+      });
+
+      await main('owner/repo', 'token', 'refs/heads/main', 'warn', '0.1.0', '-', {
+        packages: JSON.stringify([
+          { name: 'core', path: 'packages/core/', bumpFiles: ['packages/core/package.json'] },
+          { name: 'api', path: 'packages/api/', bumpFiles: ['packages/api/package.json', 'charts/api/Chart.yaml'] },
+        ]),
+      });
+
+      expect(mockBumpVersionInFiles).toHaveBeenCalledTimes(1);
+      expect(mockBumpVersionInFiles).toHaveBeenCalledWith(
+        [
+          { path: 'packages/api/package.json', format: BumpFileFormat.PACKAGE_JSON },
+          { path: 'charts/api/Chart.yaml', format: BumpFileFormat.CHART },
+        ],
+        '1.4.0',
+        true
+      );
+      expect(mockCore.setOutput).toHaveBeenCalledWith('bumped-files', JSON.stringify(['packages/api/package.json', 'charts/api/Chart.yaml']));
+    });
+
+    it('should fail for bump files input in multi-package mode', async () => {
+      await main('owner/repo', 'token', 'refs/heads/main', 'warn', '0.1.0', '-', {
+        packages: JSON.stringify([{ name: 'core', path: 'packages/core/' }]),
+        bumpFiles: ['package.json'],
+      });
+
+      expect(mockCore.setFailed).toHaveBeenCalledWith(
+        'Invalid bump files: in multi-package mode, the files are given as bumpFiles of each package.'
+      );
+    });
+  });
+
+  describe('version formats', () => {
+    beforeEach(() => {
+      mockGitHubClientInstance.getLatestReleaseTag.mockResolvedValue('v1.2.3');
+      mockGitHubClientInstance.getListOfCommitsBetween.mockResolvedValue([{ sha: 'abc123', message: 'feat: add login' }]);
+      mockGetBumpTypeFromCommits.mockReturnValue(bumpDecision('minor'));
+    });
+
+    it('should set outputs of version formats of stable version', async () => {
+      await main('owner/repo', 'token', 'refs/heads/main', 'warn', '1.0.0', '-');
+
+      expect(mockCore.setOutput).toHaveBeenCalledWith('pep440-version', '1.3.0');
+      expect(mockCore.setOutput).toHaveBeenCalledWith('nuget-version', '1.3.0');
+      expect(mockCore.setOutput).toHaveBeenCalledWith('maven-version', '1.3.0');
+      expect(mockCore.setOutput).toHaveBeenCalledWith('docker-tag', '1.3.0');
+    });
+
+    it('should render version with plus glue as pre-release', async () => {
+      await main('owner/repo', 'token', 'refs/heads/develop', 'warn', '1.0.0', '+dev');
+
+      expect(mockCore.setOutput).toHaveBeenCalledWith('new-version', '1.3.0+devabc1234');
+      expect(mockCore.setOutput).toHaveBeenCalledWith('pep440-version', '1.3.0.dev0+abc1234');
+      expect(mockCore.setOutput).toHaveBeenCalledWith('nuget-version', '1.3.0-devabc1234');
+      expect(mockCore.setOutput).toHaveBeenCalledWith('maven-version', '1.3.0-SNAPSHOT');
+      expect(mockCore.setOutput).toHaveBeenCalledWith('docker-tag', '1.3.0_devabc1234');
+    });
+
+    it('should not set outputs of version formats when version is not valid semver', async () => {
+      await main('owner/repo', 'token', 'refs/heads/develop', 'warn', '1.0.0', '.');
+
+      expect(mockCore.setOutput).toHaveBeenCalledWith('new-version', '1.3.0.abc1234');
+      expect(mockCore.setOutput).not.toHaveBeenCalledWith('pep440-version', expect.anything());
+      expect(mockCore.setOutput).not.toHaveBeenCalledWith('docker-tag', expect.anything());
+      expect(mockCore.setFailed).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('pull request resolution', () => {
+    const pullRequest = { number: 7, title: 'feat: add login', labels: ['semver:major'], mergeCommitSha: 'merge7' };
+
+    beforeEach(() => {
+      mockGitHubClientInstance.getMergedPullRequestsOfCommits = jest.fn<GitHubClient['getMergedPullRequestsOfCommits']>();
+      mockGitHubClientInstance.getLatestReleaseTag.mockResolvedValue('v1.2.3');
+      mockGitHubClientInstance.getListOfCommitsBetween.mockResolvedValue([
+        { sha: 'aaa', message: 'wip' },
+        { sha: 'merge7', message: 'Merge pull request #7 from user/login' },
+        { sha: 'bbb', message: 'fix: typo' },
+      ]);
+      mockSquashCommitsOfPullRequests.mockImplementation(commits => commits);
+      mockGetBumpTypeFromCommits.mockReturnValue(bumpDecision('major'));
+    });
+
+    it('should analyze commits resolved to their pull requests', async () => {
+      const releasePullRequest = { number: 9, title: 'Release', labels: [], mergeCommitSha: 'merge9' };
+      mockGitHubClientInstance.getMergedPullRequestsOfCommits.mockResolvedValue(new Map([
+        ['aaa', [releasePullRequest, pullRequest]],
+        ['merge7', [releasePullRequest, pullRequest]],
+        ['bbb', []],
+      ]));
+      const squashedCommits = [{ sha: 'merge7', message: 'feat: add login', pullRequest }, { sha: 'bbb', message: 'fix: typo' }];
+      mockSquashCommitsOfPullRequests.mockReturnValue(squashedCommits);
+
+      await main('owner/repo', 'token', 'refs/heads/main', 'warn', '1.0.0', '-', { resolvePullRequests: true });
+
+      expect(mockGitHubClientInstance.getMergedPullRequestsOfCommits).toHaveBeenCalledTimes(1);
+      expect(mockGitHubClientInstance.getMergedPullRequestsOfCommits).toHaveBeenCalledWith(['aaa', 'merge7', 'bbb']);
+      // Commits are resolved to the pull request they are the merge commit of, otherwise to the oldest one
+      expect(mockSquashCommitsOfPullRequests).toHaveBeenCalledWith(
+        expect.any(Array),
+        new Map([['aaa', pullRequest], ['merge7', pullRequest]]),
+        actionsLogger
+      );
+      expect(mockGetBumpTypeFromCommits).toHaveBeenCalledWith(squashedCommits, NotConventionalCommitsReaction.WARN, DEFAULT_BUMP_MAPPING, actionsLogger);
+      expect(mockCore.info).toHaveBeenCalledWith('Resolved commits to 1 merged pull requests.');
+      expect(mockCore.setOutput).toHaveBeenCalledWith('new-version', '2.0.0');
+    });
+
+    it('should not resolve pull requests by default', async () => {
+      await main('owner/repo', 'token', 'refs/heads/main', 'warn', '1.0.0', '-');
+
+      expect(mockGitHubClientInstance.getMergedPullRequestsOfCommits).not.toHaveBeenCalled();
+      expect(mockSquashCommitsOfPullRequests).not.toHaveBeenCalled();
+    });
+
+    it('should fail when pull requests cannot be fetched', async () => {
+      mockGitHubClientInstance.getMergedPullRequestsOfCommits.mockRejectedValue(new Error('API rate limit exceeded'));
+
+      await main('owner/repo', 'token', 'refs/heads/main', 'warn', '1.0.0', '-', { resolvePullRequests: true });
+
+      expect(mockCore.setFailed).toHaveBeenCalledWith('Failed to get the pull requests of commits: API rate limit exceeded');
+    });
+
+    it('should fail with other backends than github', async () => {
+      await expect(getNextVersion({ getLatestReleaseTag: jest.fn() } as any, 'refs/heads/main', 'warn', '1.0.0', '-', { resolvePullRequests: true }))
+        .rejects.toThrow('Invalid pull request resolution: resolving pull requests requires the github backend.');
+    });
+
+    it('should fail in multi-package mode', async () => {
+      await main('owner/repo', 'token', 'refs/heads/main', 'warn', '1.0.0', '-', {
+        resolvePullRequests: true,
+        packages: JSON.stringify([{ name: 'core', paths: ['packages/core/'] }]),
+      });
+
+      expect(mockCore.setFailed).toHaveBeenCalledWith('Invalid pull request resolution: resolving pull requests is not supported in multi-package mode.');
+    });
+  });
+
+  describe('lint mode', () => {
+    const lintReport: LintReport = { checked: 2, issues: [{ sha: 'bbb2222222', subject: 'wip', error: 'unexpected token' }] };
+
+    beforeEach(() => {
+      mockContext.payload = { pull_request: { number: 7, title: 'feat: add login', base: { ref: 'main' }, head: { ref: 'feature/login' } } };
+      mockGitHubClientInstance.getPullRequestCommits = jest.fn<GitHubClient['getPullRequestCommits']>()
+        .mockResolvedValue([{ sha: 'bbb2222222', message: 'wip' }]);
+      mockGitHubClientInstance.getLatestReleaseTag.mockResolvedValue('v1.2.3');
+      mockGitHubClientInstance.getListOfCommitsBetween.mockResolvedValue([{ sha: 'bbb2222222', message: 'wip' }]);
+      mockGetBumpTypeFromCommits.mockReturnValue(bumpDecision('minor'));
+      mockLintPullRequest.mockReturnValue(lintReport);
+      mockRenderLintComment.mockReturnValue('comment');
+      mockWriteLintComment.mockResolvedValue({ id: 1, body: 'comment', url: 'https://github.com/owner/repo/pull/7#issuecomment-1' });
+    });
+
+    it('should lint pull request and comment predicted version', async () => {
+      await main('owner/repo', 'token', 'refs/heads/feature/login', 'error', '1.0.0', '-', { mode: 'lint' });
+
+      expect(mockGitHubClientInstance.getPullRequestCommits).toHaveBeenCalledWith(7);
+      expect(mockLintPullRequest).toHaveBeenCalledWith('feat: add login', [{ sha: 'bbb2222222', message: 'wip' }]);
+      expect(mockCore.setOutput).toHaveBeenCalledWith('lint-report', JSON.stringify(lintReport));
+      // Version is predicted for the base branch including the commits of the pull request
+      expect(mockGitHubClientInstance.getListOfCommitsBetween).toHaveBeenCalledWith('v1.2.3', 'abc1234567890def', false);
+      expect(mockGetBumpTypeFromCommits).toHaveBeenCalledWith(expect.any(Array), NotConventionalCommitsReaction.IGNORE, DEFAULT_BUMP_MAPPING, actionsLogger);
+      expect(mockRenderLintComment).toHaveBeenCalledWith(lintReport, expect.objectContaining({ newVersion: '1.3.0', releaseNeeded: true }));
+      expect(mockWriteLintComment).toHaveBeenCalledWith(mockGitHubClientInstance, 7, 'comment');
+      expect(mockReportLintResult).toHaveBeenCalledWith(lintReport, NotConventionalCommitsReaction.ERROR);
+      expect(mockCore.setOutput).not.toHaveBeenCalledWith('new-version', expect.anything());
+    });
+
+    it('should comment why version could not be predicted', async () => {
+      mockGitHubClientInstance.getLatestReleaseTag.mockResolvedValue('invalid-tag');
+
+      await main('owner/repo', 'token', 'refs/heads/feature/login', 'warn', '1.0.0', '-', { mode: 'lint' });
+
+      expect(mockCore.warning).toHaveBeenCalledWith(expect.stringContaining('Failed to predict the next version: Latest release tag (invalid-tag)'));
+      expect(mockRenderLintComment).toHaveBeenCalledWith(lintReport, expect.any(Error));
+      expect(mockReportLintResult).toHaveBeenCalledWith(lintReport, NotConventionalCommitsReaction.WARN);
+    });
+
+    it('should only warn when comment cannot be written', async () => {
+      mockWriteLintComment.mockRejectedValue(new Error('Resource not accessible by integration'));
+
+      await main('owner/repo', 'token', 'refs/heads/feature/login', 'warn', '1.0.0', '-', { mode: 'lint' });
+
+      expect(mockCore.warning).toHaveBeenCalledWith('Failed to comment on pull request #7: Resource not accessible by integration');
+      expect(mockReportLintResult).toHaveBeenCalled();
+    });
+
+    it('should fail when commits of pull request cannot be fetched', async () => {
+      mockGitHubClientInstance.getPullRequestCommits.mockRejectedValue(new Error('Not Found'));
+
+      await main('owner/repo', 'token', 'refs/heads/feature/login', 'warn', '1.0.0', '-', { mode: 'lint' });
+
+      expect(mockCore.setFailed).toHaveBeenCalledWith('Failed to get commits of pull request #7: Not Found');
+      expect(mockWriteLintComment).not.toHaveBeenCalled();
+    });
+
+    it('should fail outside of pull request events', async () => {
+      mockContext.payload = {};
+
+      await main('owner/repo', 'token', 'refs/heads/main', 'warn', '1.0.0', '-', { mode: 'lint' });
+
+      expect(mockCore.setFailed).toHaveBeenCalledWith('Invalid mode: lint mode requires a pull_request event.');
+      expect(mockLintPullRequest).not.toHaveBeenCalled();
+    });
+
+    it('should fail with other backends than github', async () => {
+      await main('owner/repo', 'token', 'refs/heads/feature/login', 'warn', '1.0.0', '-', { mode: 'lint', backend: 'git' });
+
+      expect(mockCore.setFailed).toHaveBeenCalledWith('Invalid mode: lint mode requires the github backend.');
+    });
+
+    it('should fail for unknown mode', async () => {
+      await main('owner/repo', 'token', 'refs/heads/main', 'warn', '1.0.0', '-', { mode: 'check' });
+
+      expect(mockCore.setFailed).toHaveBeenCalledWith('Invalid mode: Invalid Mode value: check');
+    });
+  });
+
+  describe('getNextVersion', () => {
+    beforeEach(() => {
+      mockGitHubClientInstance.getLatestReleaseTag.mockResolvedValue('v1.2.3');
+      mockGitHubClientInstance.getListOfCommitsBetween.mockResolvedValue([{ sha: 'abc123', message: 'feat: add login' }]);
+      mockGetBumpTypeFromCommits.mockReturnValue(bumpDecision('minor'));
+      mockGenerateChangelog.mockReturnValue('### Features');
+    });
+
+    it('should return version without setting outputs', async () => {
+      const result = await getNextVersion(mockGitHubClientInstance, 'refs/heads/main', 'warn', '1.0.0', '-');
+
+      expect(result).toEqual({
+        latestReleaseTag: 'v1.2.3',
+        currentVersion: '1.2.3',
+        newVersion: '1.3.0',
+        newMajorVersion: 1,
+        newTag: 'v1.3.0',
+        releaseNeeded: true,
+        changelog: '### Features',
+        bumpDecision: bumpDecision('minor'),
+        stable: true,
+        formattedVersions: { pep440: '1.3.0', nuget: '1.3.0', maven: '1.3.0', docker: '1.3.0' },
+      });
+      expect(mockCore.setOutput).not.toHaveBeenCalled();
+      expect(mockCore.setFailed).not.toHaveBeenCalled();
+      expect(mockWriteBumpDecisionSummary).not.toHaveBeenCalled();
+    });
+
+    it('should throw on invalid configuration', async () => {
+      await expect(getNextVersion(mockGitHubClientInstance, 'refs/heads/main', 'warn', '1.0.0', '-', { versionSource: 'branch' }))
+        .rejects.toThrow('Invalid version source: ');
+      expect(mockCore.setFailed).not.toHaveBeenCalled();
+    });
+
+    it('should look up commit SHA of target branch for pre-release suffix', async () => {
+      mockGitHubClientInstance.getCommitSha.mockResolvedValue('fed9876543210abc');
+
+      await getNextVersion(mockGitHubClientInstance, 'refs/heads/develop', 'warn', '1.0.0', '-');
+
+      expect(mockGitHubClientInstance.getCommitSha).toHaveBeenCalledWith('refs/heads/develop');
+      expect(mockSuffixWithPreRelease).toHaveBeenCalledWith('1.3.0', '-', 'fed9876543210abc');
+    });
+
+    it('should use given commit SHA for pre-release suffix', async () => {
+      await getNextVersion(mockGitHubClientInstance, 'refs/heads/develop', 'warn', '1.0.0', '-', { commitSha: '0123456789abcdef' });
+
+      expect(mockGitHubClientInstance.getCommitSha).not.toHaveBeenCalled();
+      expect(mockSuffixWithPreRelease).toHaveBeenCalledWith('1.3.0', '-', '0123456789abcdef');
+    });
+  });
 });
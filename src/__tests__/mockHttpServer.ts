@@ -0,0 +1,69 @@
+import { createServer, IncomingHttpHeaders, Server } from 'node:http';
+import { AddressInfo } from 'node:net';
+
+export interface MockRequest {
+  method: string;
+  /** Path with query string */
+  url: string;
+  headers: IncomingHttpHeaders;
+  /** Parsed JSON body, if any */
+  body: any;
+}
+
+export interface MockResponse {
+  status?: number;
+  body: unknown;
+  headers?: Record<string, string>;
+}
+
+/**
+ * HTTP server answering requests with the responses registered for their path, for testing API clients.
+ * Responses are registered for decoded paths without query string, requests to unknown paths are answered with 404.
+ */
+export class MockHttpServer {
+  readonly requests: Array<MockRequest> = [];
+  private responses = new Map<string, (url: URL, body: any) => MockResponse>();
+  private server: Server;
+
+  /**
+   * Start the server on a random port of the loopback interface.
+   */
+  async start(): Promise<void> {
+    this.server = createServer((request, response) => {
+      const chunks: Array<Buffer> = [];
+      request.on('data', chunk => chunks.push(chunk));
+      request.on('end', () => {
+        const requestBody = chunks.length > 0 ? JSON.parse(Buffer.concat(chunks).toString()) : undefined;
+        this.requests.push({ method: request.method, url: request.url, headers: request.headers, body: requestBody });
+        const url = new URL(request.url, this.url);
+        const handler = this.responses.get(`${request.method} ${decodeURIComponent(url.pathname)}`);
+        const { status = 200, body, headers = {} } = handler
+          ? handler(url, requestBody)
+          : { status: 404, body: { message: 'Not Found' } };
+        response.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+        response.end(JSON.stringify(body));
+      });
+    });
+    await new Promise<void>(resolve => this.server.listen(0, '127.0.0.1', resolve));
+  }
+
+  async stop(): Promise<void> {
+    await new Promise<void>(resolve => this.server.close(() => resolve()));
+  }
+
+  get url(): string {
+    return `http://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+  }
+
+  /**
+   * Register the response to requests of the path, either fixed or depending on the request URL and body.
+   */
+  on(path: string, response: MockResponse | ((url: URL, body: any) => MockResponse), method: string = 'GET'): void {
+    this.responses.set(`${method} ${path}`, typeof response === 'function' ? response : () => response);
+  }
+
+  reset(): void {
+    this.requests.length = 0;
+    this.responses.clear();
+  }
+}
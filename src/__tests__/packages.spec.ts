@@ -0,0 +1,329 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import * as core from '@actions/core';
+import { GitHubClient } from '../github';
+import { Commit } from '../github/types';
+import { DEFAULT_BUMP_MAPPING } from '../logic';
+import { filterCommitsOfPackage, getDependentPackageNames, getPackageVersions, PackageVersionsSettings } from '../packages';
+import { NotConventionalCommitsReaction, PackageConfig, VersionSource } from '../types';
+
+// Mock @actions/core
+jest.mock('@actions/core');
+const mockedCore = jest.mocked(core);
+
+
+describe('filterCommitsOfPackage', () => {
+  const packageConfigs: PackageConfig[] = [
+    { name: 'core', paths: ['packages/core/'] },
+    { name: 'web', paths: ['packages/web/'], scopes: ['web', 'ui-*'] },
+  ];
+
+  const commits: Commit[] = [
+    { sha: 'aaa', message: 'fix(web): fix layout', files: ['packages/core/src/styles.css'] },
+    { sha: 'bbb', message: 'fix(ui-button): fix color', files: ['packages/core/src/button.ts'] },
+    { sha: 'ccc', message: 'fix(core): fix parser', files: ['packages/core/src/parser.ts'] },
+    { sha: 'ddd', message: 'fix: fix build', files: ['packages/web/build.ts'] },
+  ];
+
+  it('should route commits by scope regardless of changed files', () => {
+    expect(filterCommitsOfPackage(commits, packageConfigs[1], packageConfigs).map(commit => commit.sha)).toEqual(['aaa', 'bbb', 'ddd']);
+  });
+
+  it('should not assign commits routed to other packages', () => {
+    expect(filterCommitsOfPackage(commits, packageConfigs[0], packageConfigs).map(commit => commit.sha)).toEqual(['ccc']);
+  });
+});
+
+
+describe('getDependentPackageNames', () => {
+  const packageConfigs: PackageConfig[] = [
+    { name: 'core', paths: ['packages/core/'] },
+    { name: 'api', paths: ['packages/api/'], dependencies: ['core'] },
+    { name: 'web', paths: ['packages/web/'], dependencies: ['api'] },
+    { name: 'docs', paths: ['docs/'] },
+  ];
+
+  it('should return direct and transitive dependents', () => {
+    expect(getDependentPackageNames(packageConfigs, ['core'])).toEqual(['api', 'web']);
+  });
+
+  it('should not return packages which are released anyway', () => {
+    expect(getDependentPackageNames(packageConfigs, ['core', 'api'])).toEqual(['web']);
+  });
+
+  it('should return empty list when nothing is released', () => {
+    expect(getDependentPackageNames(packageConfigs, [])).toEqual([]);
+  });
+});
+
+
+describe('getPackageVersions', () => {
+  const packageConfigs: PackageConfig[] = [
+    { name: 'core', paths: ['packages/core/'] },
+    { name: 'api', paths: ['packages/api/'], dependencies: ['core'] },
+    { name: 'web', paths: ['packages/web/'] },
+  ];
+
+  const settings: PackageVersionsSettings = {
+    notConventionalCommitsReaction: NotConventionalCommitsReaction.WARN,
+    bumpMapping: DEFAULT_BUMP_MAPPING,
+    initReleaseVersion: '0.1.0',
+    versionSource: VersionSource.TAG,
+    tagPattern: '',
+    scopes: [],
+    line: null,
+    skipReleaseWhenNotNeeded: true,
+    initialDevelopmentMode: false,
+    bumpDependents: false,
+    preReleaseVersionGlue: null,
+    commitSha: null,
+    preReleaseSuffix: null,
+    preReleaseCounterIdentifier: null,
+  };
+
+  // Commits ordered from the oldest to the newest, the core@1.0.0 tag points to 'c0'
+  const commits: Commit[] = [
+    { sha: 'c1', message: 'feat(api): add endpoint', files: ['packages/api/src/index.ts'] },
+    { sha: 'c2', message: 'fix(core): fix parser', files: ['packages/core/src/parser.ts'] },
+    { sha: 'c3', message: 'fix(api): fix endpoint', files: ['packages/api/src/index.ts'] },
+  ];
+
+  let mockGitHubClient: jest.Mocked<GitHubClient>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    mockGitHubClient = {
+      getTags: jest.fn(),
+      getReleaseTagNames: jest.fn(),
+      getListOfCommitsBetween: jest.fn(),
+      getListOfFilesChangedBy: jest.fn(),
+    } as any;
+
+    mockGitHubClient.getTags.mockResolvedValue([
+      { name: 'api@1.3.0', sha: 'c2' },
+      { name: 'api@1.2.0', sha: 'c0' },
+      { name: 'core@1.0.0', sha: 'c0' },
+      { name: 'v9.0.0', sha: 'c0' },
+    ]);
+    // The commits since a tag are those after the commit it points to, listed without their files
+    mockGitHubClient.getListOfCommitsBetween.mockImplementation(async rangeBegin => {
+      const tag = (await mockGitHubClient.getTags()).find(tag => tag.name === rangeBegin);
+      return commits.slice(commits.findIndex(commit => commit.sha === tag.sha) + 1).map(({ sha, message }) => ({ sha, message }));
+    });
+    mockGitHubClient.getListOfFilesChangedBy.mockImplementation(async sha => commits.find(commit => commit.sha === sha).files);
+  });
+
+  it('should fetch commits since latest release tag and compute version of each package', async () => {
+    const result = await getPackageVersions(mockGitHubClient, 'refs/heads/main', packageConfigs, settings);
+
+    expect(mockGitHubClient.getListOfCommitsBetween).toHaveBeenCalledTimes(2);
+    expect(mockGitHubClient.getListOfCommitsBetween).toHaveBeenCalledWith('core@1.0.0', 'refs/heads/main');
+    expect(mockGitHubClient.getListOfCommitsBetween).toHaveBeenCalledWith('api@1.3.0', 'refs/heads/main');
+    // c3 is a commit since the tags of both packages, its files are fetched once
+    expect(mockGitHubClient.getListOfFilesChangedBy).toHaveBeenCalledTimes(3);
+    expect(mockGitHubClient.getListOfFilesChangedBy.mock.calls.map(([sha]) => sha)).toEqual(['c1', 'c2', 'c3']);
+    expect(result).toEqual({
+      core: {
+        latestReleaseTag: 'core@1.0.0',
+        currentVersion: '1.0.0',
+        newVersion: '1.0.1',
+        newTag: 'core@1.0.1',
+        bumpType: 'patch',
+        releaseNeeded: true,
+        changelog: '### Bug Fixes\n\n- **core:** fix parser (c2)',
+      },
+      api: {
+        latestReleaseTag: 'api@1.3.0',
+        currentVersion: '1.3.0',
+        newVersion: '1.3.1',
+        newTag: 'api@1.3.1',
+        bumpType: 'patch',
+        releaseNeeded: true,
+        changelog: '### Bug Fixes\n\n- **api:** fix endpoint (c3)',
+      },
+      web: {
+        latestReleaseTag: '',
+        currentVersion: '',
+        newVersion: '0.1.0',
+        newTag: 'web@0.1.0',
+        bumpType: '',
+        releaseNeeded: true,
+        changelog: '',
+      },
+    });
+  });
+
+  it('should fetch commits since a tag shared by packages once', async () => {
+    mockGitHubClient.getTags.mockResolvedValue([
+      { name: 'v1.0.0', sha: 'c0' },
+    ]);
+
+    const result = await getPackageVersions(mockGitHubClient, 'refs/heads/main', packageConfigs, {
+      ...settings,
+      tagPattern: 'v{version}',
+    });
+
+    expect(mockGitHubClient.getListOfCommitsBetween).toHaveBeenCalledTimes(1);
+    expect(result.core.newVersion).toBe('1.0.1');
+    expect(result.api.newVersion).toBe('1.1.0');
+    expect(result.web.releaseNeeded).toBe(false);
+  });
+
+  it('should not release packages without commits', async () => {
+    mockGitHubClient.getTags.mockResolvedValue([
+      { name: 'core@1.0.0', sha: 'c2' },
+      { name: 'api@1.3.0', sha: 'c3' },
+      { name: 'web@2.0.0', sha: 'c3' },
+    ]);
+
+    const result = await getPackageVersions(mockGitHubClient, 'refs/heads/main', packageConfigs, settings);
+
+    expect(result.core.releaseNeeded).toBe(false);
+    expect(result.core.newVersion).toBe('1.0.0');
+    expect(result.api.releaseNeeded).toBe(false);
+    expect(result.web.releaseNeeded).toBe(false);
+  });
+
+  it('should not release packages without commits but bump patch version without skipping', async () => {
+    mockGitHubClient.getTags.mockResolvedValue([
+      { name: 'core@1.0.0', sha: 'c2' },
+      { name: 'api@1.3.0', sha: 'c3' },
+      { name: 'web@2.0.0', sha: 'c3' },
+    ]);
+
+    const result = await getPackageVersions(mockGitHubClient, 'refs/heads/main', packageConfigs, {
+      ...settings,
+      skipReleaseWhenNotNeeded: false,
+    });
+
+    expect(result.core.releaseNeeded).toBe(false);
+    expect(result.core.newVersion).toBe('1.0.1');
+    expect(result.core.bumpType).toBe('patch');
+  });
+
+  it('should bump packages depending on released packages', async () => {
+    mockGitHubClient.getTags.mockResolvedValue([
+      { name: 'core@1.0.0', sha: 'c0' },
+      { name: 'api@1.3.0', sha: 'c3' },
+      { name: 'web@2.0.0', sha: 'c3' },
+    ]);
+
+    const result = await getPackageVersions(mockGitHubClient, 'refs/heads/main', packageConfigs, {
+      ...settings,
+      bumpDependents: true,
+    });
+
+    expect(result.core.newVersion).toBe('1.0.1');
+    expect(result.api.releaseNeeded).toBe(true);
+    expect(result.api.newVersion).toBe('1.3.1');
+    expect(result.web.releaseNeeded).toBe(false);
+    expect(mockedCore.info).toHaveBeenCalledWith('Package api depends on a released package. Bumping patch version.');
+  });
+
+  it('should only consider released tags when version source is release', async () => {
+    mockGitHubClient.getReleaseTagNames.mockResolvedValue(['api@1.2.0', 'core@1.0.0']);
+
+    const result = await getPackageVersions(mockGitHubClient, 'refs/heads/main', packageConfigs, {
+      ...settings,
+      versionSource: VersionSource.RELEASE,
+    });
+
+    expect(result.api.latestReleaseTag).toBe('api@1.2.0');
+    expect(result.api.newVersion).toBe('1.3.0');
+  });
+
+  it('should ignore commits with excluded scopes', async () => {
+    const result = await getPackageVersions(mockGitHubClient, 'refs/heads/main', packageConfigs, {
+      ...settings,
+      scopes: ['!core'],
+    });
+
+    expect(result.core.releaseNeeded).toBe(false);
+    expect(result.api.releaseNeeded).toBe(true);
+  });
+
+  it('should use package tag patterns', async () => {
+    mockGitHubClient.getTags.mockResolvedValue([
+      { name: 'core/v1.0.0', sha: 'c0' },
+    ]);
+
+    const result = await getPackageVersions(mockGitHubClient, 'refs/heads/main', [
+      { name: 'core', paths: ['packages/core/'], tagPattern: '{package}/v{version}' },
+    ], settings);
+
+    expect(result.core.newTag).toBe('core/v1.0.1');
+  });
+
+  it('should suffix versions with pre-release identifier', async () => {
+    const result = await getPackageVersions(mockGitHubClient, 'refs/heads/develop', packageConfigs, {
+      ...settings,
+      preReleaseVersionGlue: '-',
+      commitSha: 'abcdef1234567890',
+    });
+
+    expect(result.core.newVersion).toBe('1.0.1-abcdef1');
+    expect(result.core.newTag).toBe('core@1.0.1-abcdef1');
+  });
+
+  it('should suffix versions with rendered pre-release template', async () => {
+    const result = await getPackageVersions(mockGitHubClient, 'refs/heads/develop', packageConfigs, {
+      ...settings,
+      preReleaseVersionGlue: '-',
+      commitSha: 'abcdef1234567890',
+      preReleaseSuffix: '-develop.42',
+    });
+
+    expect(result.core.newVersion).toBe('1.0.1-develop.42');
+  });
+
+  it('should suffix versions with counter of pre-release channel', async () => {
+    mockGitHubClient.getTags.mockResolvedValue([
+      { name: 'api@1.3.0', sha: 'c2' },
+      { name: 'core@1.0.1-next.1', sha: 'c1' },
+      { name: 'core@1.0.0', sha: 'c0' },
+    ]);
+
+    const result = await getPackageVersions(mockGitHubClient, 'refs/heads/next', packageConfigs, {
+      ...settings,
+      preReleaseVersionGlue: '-',
+      commitSha: 'abcdef1234567890',
+      preReleaseSuffix: '+build.42',
+      preReleaseCounterIdentifier: 'next',
+    });
+
+    expect(result.core.newVersion).toBe('1.0.1-next.2+build.42');
+    expect(result.core.newTag).toBe('core@1.0.1-next.2+build.42');
+  });
+
+  it('should count pre-releases tagged with build metadata', async () => {
+    mockGitHubClient.getTags.mockResolvedValue([
+      { name: 'core@1.0.1-next.1+build.41', sha: 'c1' },
+      { name: 'core@1.0.0', sha: 'c0' },
+    ]);
+
+    const result = await getPackageVersions(mockGitHubClient, 'refs/heads/next', [packageConfigs[0]], {
+      ...settings,
+      preReleaseSuffix: '+build.42',
+      preReleaseCounterIdentifier: 'next',
+    });
+
+    expect(result.core.newVersion).toBe('1.0.1-next.2+build.42');
+  });
+
+  it('should not fetch commits when no package has been released', async () => {
+    mockGitHubClient.getTags.mockResolvedValue([]);
+
+    const result = await getPackageVersions(mockGitHubClient, 'refs/heads/main', packageConfigs, settings);
+
+    expect(mockGitHubClient.getListOfCommitsBetween).not.toHaveBeenCalled();
+    expect(result.api.newVersion).toBe('0.1.0');
+  });
+
+  it('should throw when new version is out of the release line', async () => {
+    await expect(getPackageVersions(mockGitHubClient, 'refs/heads/1.x', packageConfigs, {
+      ...settings,
+      line: '0.x',
+      initReleaseVersion: '1.0.0',
+    })).rejects.toThrow('New version of package core (1.0.0) is out of the release line (0.x).');
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { GitHubClient } from '../github';
+import { createTagAndRelease, moveFloatingTags } from '../release';
+
+// Mock @actions/core
+jest.mock('@actions/core');
+
+
+describe('createTagAndRelease', () => {
+  const release = { id: 1, tagName: 'v1.2.4', url: 'https://github.com/owner/repo/releases/tag/v1.2.4' };
+
+  let mockGitHubClient: jest.Mocked<GitHubClient>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    mockGitHubClient = {
+      getTagSha: jest.fn(),
+      createTag: jest.fn(),
+      getReleaseByTagName: jest.fn(),
+      createRelease: jest.fn(),
+    } as any;
+
+    mockGitHubClient.getTagSha.mockResolvedValue(null);
+    mockGitHubClient.getReleaseByTagName.mockResolvedValue(null);
+    mockGitHubClient.createRelease.mockResolvedValue(release);
+  });
+
+  it('should create tag and release', async () => {
+    const result = await createTagAndRelease(mockGitHubClient, 'v1.2.4', 'abc123', '### Bug Fixes', false, false);
+
+    expect(mockGitHubClient.createTag).toHaveBeenCalledWith('v1.2.4', 'abc123');
+    expect(mockGitHubClient.createRelease).toHaveBeenCalledWith('v1.2.4', '### Bug Fixes', false, false);
+    expect(result).toEqual(release);
+  });
+
+  it('should create draft pre-release', async () => {
+    await createTagAndRelease(mockGitHubClient, 'v1.2.4-rc.1', 'abc123', '', true, true);
+
+    expect(mockGitHubClient.createRelease).toHaveBeenCalledWith('v1.2.4-rc.1', '', true, true);
+  });
+
+  it('should reuse existing tag pointing to the commit', async () => {
+    mockGitHubClient.getTagSha.mockResolvedValue('abc123');
+
+    await createTagAndRelease(mockGitHubClient, 'v1.2.4', 'abc123', '', false, false);
+
+    expect(mockGitHubClient.createTag).not.toHaveBeenCalled();
+    expect(mockGitHubClient.createRelease).toHaveBeenCalled();
+  });
+
+  it('should reuse existing release', async () => {
+    mockGitHubClient.getTagSha.mockResolvedValue('abc123');
+    mockGitHubClient.getReleaseByTagName.mockResolvedValue(release);
+
+    const result = await createTagAndRelease(mockGitHubClient, 'v1.2.4', 'abc123', '', false, false);
+
+    expect(mockGitHubClient.createTag).not.toHaveBeenCalled();
+    expect(mockGitHubClient.createRelease).not.toHaveBeenCalled();
+    expect(result).toEqual(release);
+  });
+
+  it('should throw when tag points to another commit', async () => {
+    mockGitHubClient.getTagSha.mockResolvedValue('def456');
+
+    await expect(createTagAndRelease(mockGitHubClient, 'v1.2.4', 'abc123', '', false, false)).rejects.toThrow(
+      'Tag v1.2.4 already exists and points to another commit (def456).'
+    );
+    expect(mockGitHubClient.createRelease).not.toHaveBeenCalled();
+  });
+});
+
+
+describe('moveFloatingTags', () => {
+  it('should create or update each tag', async () => {
+    const mockGitHubClient = { createOrUpdateTag: jest.fn() } as any as jest.Mocked<GitHubClient>;
+
+    await moveFloatingTags(mockGitHubClient, ['v3', 'v3.2'], 'abc123');
+
+    expect(mockGitHubClient.createOrUpdateTag).toHaveBeenCalledTimes(2);
+    expect(mockGitHubClient.createOrUpdateTag).toHaveBeenCalledWith('v3', 'abc123');
+    expect(mockGitHubClient.createOrUpdateTag).toHaveBeenCalledWith('v3.2', 'abc123');
+  });
+});
@@ -0,0 +1,92 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import * as core from '@actions/core';
+import { writeBumpDecisionSummary } from '../summary';
+import { BumpDecision, BumpLevel } from '../types';
+
+// Mock @actions/core
+jest.mock('@actions/core', () => {
+  const summary = {
+    addHeading: jest.fn(),
+    addRaw: jest.fn(),
+    addBreak: jest.fn(),
+    addTable: jest.fn(),
+    write: jest.fn(),
+  };
+  for (const method of ['addHeading', 'addRaw', 'addBreak', 'addTable']) {
+    summary[method].mockReturnValue(summary);
+  }
+  return {
+    __esModule: true,
+    summary,
+    warning: jest.fn(),
+  };
+});
+const mockedCore = jest.mocked(core);
+
+
+describe('writeBumpDecisionSummary', () => {
+  const featureCommit = { sha: 'abc1234567', subject: 'feat: add <Login> page', type: 'feat', breaking: false, bumpLevel: BumpLevel.MINOR };
+
+  const decision: BumpDecision = {
+    bumpType: 'minor',
+    considered: [featureCommit],
+    ignored: [
+      { sha: 'def4567890', subject: 'Merge pull request #1 from user/branch', type: null, breaking: false, bumpLevel: BumpLevel.NONE },
+    ],
+    nonConventional: [
+      { sha: 'ghi7890123', subject: 'Updated dependencies', type: null, breaking: false, bumpLevel: BumpLevel.PATCH },
+    ],
+    trigger: featureCommit,
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should write version, bump type and table of commits', async () => {
+    await writeBumpDecisionSummary(decision, '1.2.3', '1.3.0', true);
+
+    expect(mockedCore.summary.addHeading).toHaveBeenCalledWith('Version bump', 2);
+    expect(mockedCore.summary.addRaw).toHaveBeenCalledWith('Version: <code>1.2.3</code> → <code>1.3.0</code>', true);
+    expect(mockedCore.summary.addRaw).toHaveBeenCalledWith(
+      'Bump type: minor, triggered by <code>abc1234</code> feat: add &lt;Login&gt; page',
+      true
+    );
+    expect(mockedCore.summary.addTable).toHaveBeenCalledWith([
+      [
+        { data: 'Commit', header: true },
+        { data: 'Subject', header: true },
+        { data: 'Type', header: true },
+        { data: 'Bump', header: true },
+        { data: 'Notes', header: true },
+      ],
+      ['<code>abc1234</code>', 'feat: add &lt;Login&gt; page', 'feat', 'minor', 'triggered bump'],
+      ['<code>ghi7890</code>', 'Updated dependencies', '', 'patch', 'not conventional'],
+      ['<code>def4567</code>', 'Merge pull request #1 from user/branch', '', 'none', 'ignored'],
+    ]);
+    expect(mockedCore.summary.write).toHaveBeenCalled();
+  });
+
+  it('should write that no release is needed', async () => {
+    await writeBumpDecisionSummary(
+      { bumpType: null, considered: [], ignored: [], nonConventional: [], trigger: null },
+      '1.2.3',
+      '1.2.3',
+      false
+    );
+
+    expect(mockedCore.summary.addRaw).toHaveBeenCalledWith('Version: <code>1.2.3</code> (no release needed)', true);
+    expect(mockedCore.summary.addRaw).toHaveBeenCalledWith('Bump type: none', true);
+    expect(mockedCore.summary.addTable).not.toHaveBeenCalled();
+  });
+
+  it('should warn when summary cannot be written', async () => {
+    mockedCore.summary.write.mockRejectedValueOnce(new Error('Unable to find environment variable for $GITHUB_STEP_SUMMARY'));
+
+    await writeBumpDecisionSummary(decision, '1.2.3', '1.3.0', true);
+
+    expect(mockedCore.warning).toHaveBeenCalledWith(
+      'Failed to write job summary: Unable to find environment variable for $GITHUB_STEP_SUMMARY'
+    );
+  });
+});
@@ -0,0 +1,108 @@
+import { describe, it, expect } from '@jest/globals';
+import { getVersionFromTag, getVersionsFromTags, renderFloatingTags, renderTag, validateTagPattern } from '../tags';
+
+
+describe('validateTagPattern', () => {
+  it('should accept empty pattern', () => {
+    expect(() => validateTagPattern('')).not.toThrow();
+  });
+
+  it('should accept pattern with version placeholder', () => {
+    expect(() => validateTagPattern('api/v{version}')).not.toThrow();
+    expect(() => validateTagPattern('{package}@{version}', 'my-lib')).not.toThrow();
+  });
+
+  it('should throw for pattern without version placeholder', () => {
+    expect(() => validateTagPattern('latest')).toThrow('Tag pattern (latest) must contain {version} exactly once');
+  });
+
+  it('should throw for pattern with version placeholder more than once', () => {
+    expect(() => validateTagPattern('{version}-{version}')).toThrow('Tag pattern ({version}-{version}) must contain {version} exactly once');
+  });
+
+  it('should throw for package placeholder without package name', () => {
+    expect(() => validateTagPattern('{package}@{version}')).toThrow(
+      'Tag pattern ({package}@{version}) contains {package}, but no package name is given'
+    );
+  });
+});
+
+
+describe('getVersionFromTag', () => {
+  it('should accept any semver tag with empty pattern', () => {
+    expect(getVersionFromTag('v1.2.3')).toBe('1.2.3');
+    expect(getVersionFromTag('1.2.3-rc.1')).toBe('1.2.3-rc.1');
+    expect(getVersionFromTag('my-lib@1.2.3')).toBe(null);
+  });
+
+  it('should parse package tags', () => {
+    expect(getVersionFromTag('my-lib@1.2.3', '{package}@{version}', 'my-lib')).toBe('1.2.3');
+    expect(getVersionFromTag('other-lib@1.2.3', '{package}@{version}', 'my-lib')).toBe(null);
+  });
+
+  it('should parse prefixed tags', () => {
+    expect(getVersionFromTag('api/v1.2.3', 'api/v{version}')).toBe('1.2.3');
+    expect(getVersionFromTag('api/v1.2.3-rc.2', 'api/v{version}')).toBe('1.2.3-rc.2');
+    expect(getVersionFromTag('web/v1.2.3', 'api/v{version}')).toBe(null);
+  });
+
+  it('should accept tags with build metadata and drop it', () => {
+    expect(getVersionFromTag('v2.0.0-beta.2+build.7')).toBe('2.0.0-beta.2');
+    expect(getVersionFromTag('v2.0.0-beta.2+build.7', 'v{version}')).toBe('2.0.0-beta.2');
+    expect(getVersionFromTag('my-lib@1.2.3+exp.sha.5114f85', '{package}@{version}', 'my-lib')).toBe('1.2.3');
+    expect(getVersionFromTag('my-lib@v1.2.3+build.7', '{package}@{version}', 'my-lib')).toBe(null);
+  });
+
+  it('should treat special characters in the pattern literally', () => {
+    expect(getVersionFromTag('@scope/lib@1.2.3', '{package}@{version}', '@scope/lib')).toBe('1.2.3');
+    expect(getVersionFromTag('xscopeylib@1.2.3', '{package}@{version}', '.scope.lib')).toBe(null);
+  });
+
+  it('should reject versions not matching the pattern exactly', () => {
+    expect(getVersionFromTag('my-lib@v1.2.3', '{package}@{version}', 'my-lib')).toBe(null);
+    expect(getVersionFromTag('api/vlatest', 'api/v{version}')).toBe(null);
+  });
+});
+
+
+describe('renderTag', () => {
+  it('should render default pattern', () => {
+    expect(renderTag('1.2.3')).toBe('v1.2.3');
+  });
+
+  it('should render package and prefix patterns', () => {
+    expect(renderTag('1.2.3', '{package}@{version}', 'my-lib')).toBe('my-lib@1.2.3');
+    expect(renderTag('1.2.3-rc.1', 'api/v{version}')).toBe('api/v1.2.3-rc.1');
+  });
+});
+
+
+describe('getVersionsFromTags', () => {
+  it('should return versions of tags matching the pattern', () => {
+    const tags = ['my-lib@1.2.3', 'other-lib@2.0.0', 'my-lib@1.3.0-rc.1', 'v1.0.0'];
+    expect(getVersionsFromTags(tags, '{package}@{version}', 'my-lib')).toEqual(['1.2.3', '1.3.0-rc.1']);
+  });
+});
+
+
+describe('renderFloatingTags', () => {
+  it('should render major and minor tags', () => {
+    expect(renderFloatingTags('3.2.1', true, true)).toEqual(['v3', 'v3.2']);
+    expect(renderFloatingTags('3.2.1', true, false)).toEqual(['v3']);
+    expect(renderFloatingTags('3.2.1', false, true)).toEqual(['v3.2']);
+    expect(renderFloatingTags('3.2.1', false, false)).toEqual([]);
+  });
+
+  it('should render tags according to the tag pattern', () => {
+    expect(renderFloatingTags('3.2.1', true, true, '{package}/v{version}', 'api')).toEqual(['api/v3', 'api/v3.2']);
+  });
+
+  it('should only render tags of which the version is the highest stable version', () => {
+    const tags = ['v3.3.0', 'v3.2.0', 'v3.2.1-rc.1', 'v4.0.0-rc.1'];
+    expect(renderFloatingTags('3.2.1', true, true, '', '', tags)).toEqual(['v3.2']);
+    expect(renderFloatingTags('3.3.1', true, true, '', '', tags)).toEqual(['v3', 'v3.3']);
+    expect(renderFloatingTags('3.1.5', true, true, '', '', tags)).toEqual(['v3.1']);
+    expect(renderFloatingTags('3.1.5', true, false, '', '', tags)).toEqual([]);
+    expect(renderFloatingTags('3.3.0', true, true, '', '', tags)).toEqual(['v3', 'v3.3']);
+  });
+});
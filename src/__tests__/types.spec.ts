@@ -0,0 +1,267 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  BumpFileFormat,
+  BumpLevel,
+  Mode,
+  PreReleaseMode,
+  VersionSource,
+  getBranchConfigsFromString,
+  getBumpFileConfigsFromLines,
+  getBumpLevelEnumFromString,
+  getBumpMappingFromString,
+  getModeEnumFromString,
+  getPackageConfigsFromString,
+  getPreReleaseIdentifierMappingFromString,
+  getPreReleaseModeEnumFromString,
+  getVersionSourceEnumFromString
+} from '../types';
+
+
+describe('getBumpLevelEnumFromString', () => {
+  it('should parse bump levels case insensitively', () => {
+    expect(getBumpLevelEnumFromString('major')).toBe(BumpLevel.MAJOR);
+    expect(getBumpLevelEnumFromString('Minor')).toBe(BumpLevel.MINOR);
+    expect(getBumpLevelEnumFromString('PATCH')).toBe(BumpLevel.PATCH);
+    expect(getBumpLevelEnumFromString('none')).toBe(BumpLevel.NONE);
+  });
+
+  it('should throw for unknown bump level', () => {
+    expect(() => getBumpLevelEnumFromString('huge')).toThrow('Invalid BumpLevel value: huge');
+  });
+});
+
+
+describe('getBumpMappingFromString', () => {
+  it('should parse JSON mapping', () => {
+    const result = getBumpMappingFromString('{"perf": "minor", "Docs": "none"}');
+    expect(result).toEqual({ perf: BumpLevel.MINOR, docs: BumpLevel.NONE });
+  });
+
+  it('should parse YAML-like mapping lines', () => {
+    const result = getBumpMappingFromString([
+      '# performance is a feature',
+      'perf: minor',
+      '',
+      '"docs": none',
+      "security: 'major'",
+    ].join('\n'));
+    expect(result).toEqual({ perf: BumpLevel.MINOR, docs: BumpLevel.NONE, security: BumpLevel.MAJOR });
+  });
+
+  it('should throw for invalid JSON', () => {
+    expect(() => getBumpMappingFromString('{"perf": ')).toThrow(/^Invalid BumpMapping JSON/);
+  });
+
+  it('should throw for non-string JSON values', () => {
+    expect(() => getBumpMappingFromString('{"perf": 1}')).toThrow("Invalid BumpMapping value for 'perf': 1");
+  });
+
+  it('should throw for line without separator', () => {
+    expect(() => getBumpMappingFromString('perf minor')).toThrow('Invalid BumpMapping line: perf minor');
+  });
+});
+
+
+describe('getPreReleaseModeEnumFromString', () => {
+  it('should parse pre-release modes case insensitively', () => {
+    expect(getPreReleaseModeEnumFromString('sha')).toBe(PreReleaseMode.SHA);
+    expect(getPreReleaseModeEnumFromString('Counter')).toBe(PreReleaseMode.COUNTER);
+  });
+
+  it('should throw for unknown pre-release mode', () => {
+    expect(() => getPreReleaseModeEnumFromString('random')).toThrow('Invalid PreReleaseMode value: random');
+  });
+});
+
+
+describe('getPreReleaseIdentifierMappingFromString', () => {
+  it('should use single identifier for all branches', () => {
+    expect(getPreReleaseIdentifierMappingFromString('beta')).toEqual({ '*': 'beta' });
+  });
+
+  it('should parse branch pattern mapping lines', () => {
+    const result = getPreReleaseIdentifierMappingFromString('develop: beta\nrelease/*: rc\n*: alpha');
+    expect(result).toEqual({ 'develop': 'beta', 'release/*': 'rc', '*': 'alpha' });
+    expect(Object.keys(result)).toEqual(['develop', 'release/*', '*']);
+  });
+
+  it('should parse JSON mapping', () => {
+    expect(getPreReleaseIdentifierMappingFromString('{"next": "next"}')).toEqual({ next: 'next' });
+  });
+
+  it('should throw for identifiers which are not valid semver pre-release identifiers', () => {
+    expect(() => getPreReleaseIdentifierMappingFromString('develop: be.ta')).toThrow(
+      "Invalid pre-release identifier for branch pattern 'develop': be.ta"
+    );
+    expect(() => getPreReleaseIdentifierMappingFromString('123')).toThrow(
+      "Invalid pre-release identifier for branch pattern '*': 123"
+    );
+  });
+});
+
+
+describe('getBranchConfigsFromString', () => {
+  it('should parse list of branch configurations', () => {
+    const result = getBranchConfigsFromString(JSON.stringify([
+      { pattern: 'main', stable: true },
+      { pattern: '1.x', stable: true, line: '1.x' },
+      { pattern: 'next', channel: 'next' },
+      { pattern: 'feature/*' },
+    ]));
+    expect(result).toEqual([
+      { pattern: 'main', stable: true },
+      { pattern: '1.x', stable: true, line: '1.x' },
+      { pattern: 'next', channel: 'next' },
+      { pattern: 'feature/*' },
+    ]);
+  });
+
+  it('should throw for invalid JSON', () => {
+    expect(() => getBranchConfigsFromString('[{')).toThrow(/^Invalid BranchConfig JSON/);
+  });
+
+  it('should throw when value is not an array', () => {
+    expect(() => getBranchConfigsFromString('{"pattern": "main"}')).toThrow(/^Invalid BranchConfig value, expected an array/);
+  });
+
+  it('should throw for entry without pattern', () => {
+    expect(() => getBranchConfigsFromString('[{"stable": true}]')).toThrow(
+      'Invalid BranchConfig entry, pattern is required: {"stable":true}'
+    );
+  });
+
+  it('should throw for invalid channel', () => {
+    expect(() => getBranchConfigsFromString('[{"pattern": "next", "channel": "ne.xt"}]')).toThrow(
+      "Invalid BranchConfig entry for pattern 'next', channel must be a valid pre-release identifier"
+    );
+  });
+
+  it('should throw for stable branch with channel', () => {
+    expect(() => getBranchConfigsFromString('[{"pattern": "main", "stable": true, "channel": "rc"}]')).toThrow(
+      "Invalid BranchConfig entry for pattern 'main', stable branch cannot have a channel"
+    );
+  });
+
+  it('should throw for invalid line', () => {
+    expect(() => getBranchConfigsFromString('[{"pattern": "1.x", "stable": true, "line": ">=1"}]')).toThrow(
+      "Invalid BranchConfig entry for pattern '1.x', line must be in format major[.minor][.x]"
+    );
+  });
+});
+
+
+describe('getVersionSourceEnumFromString', () => {
+  it('should parse version sources case insensitively', () => {
+    expect(getVersionSourceEnumFromString('release')).toBe(VersionSource.RELEASE);
+    expect(getVersionSourceEnumFromString('Tag')).toBe(VersionSource.TAG);
+  });
+
+  it('should throw for unknown version source', () => {
+    expect(() => getVersionSourceEnumFromString('branch')).toThrow('Invalid VersionSource value: branch');
+  });
+});
+
+
+describe('getModeEnumFromString', () => {
+  it('should parse modes case insensitively', () => {
+    expect(getModeEnumFromString('version')).toBe(Mode.VERSION);
+    expect(getModeEnumFromString('Lint')).toBe(Mode.LINT);
+  });
+
+  it('should throw for unknown mode', () => {
+    expect(() => getModeEnumFromString('check')).toThrow('Invalid Mode value: check');
+  });
+});
+
+
+describe('getBumpFileConfigsFromLines', () => {
+  it('should infer formats from file names', () => {
+    expect(getBumpFileConfigsFromLines(['package.json', 'python/pyproject.toml', 'charts/app/Chart.yaml', 'pom.xml', 'VERSION', 'version.txt'])).toEqual([
+      { path: 'package.json', format: BumpFileFormat.PACKAGE_JSON },
+      { path: 'python/pyproject.toml', format: BumpFileFormat.PYPROJECT },
+      { path: 'charts/app/Chart.yaml', format: BumpFileFormat.CHART },
+      { path: 'pom.xml', format: BumpFileFormat.POM },
+      { path: 'VERSION', format: BumpFileFormat.TEXT },
+      { path: 'version.txt', format: BumpFileFormat.TEXT },
+    ]);
+  });
+
+  it('should parse explicit formats and skip empty lines and comments', () => {
+    expect(getBumpFileConfigsFromLines(['  RELEASE: text ', '', '# manifests', 'deploy/chart.yml: Chart.yaml'])).toEqual([
+      { path: 'RELEASE', format: BumpFileFormat.TEXT },
+      { path: 'deploy/chart.yml', format: BumpFileFormat.CHART },
+    ]);
+  });
+
+  it('should throw when format cannot be inferred', () => {
+    expect(() => getBumpFileConfigsFromLines(['build.gradle'])).toThrow(
+      "Cannot infer the format of file build.gradle, give it as 'build.gradle: format'"
+    );
+  });
+
+  it('should throw for unknown format', () => {
+    expect(() => getBumpFileConfigsFromLines(['build.gradle: gradle'])).toThrow('Invalid BumpFileFormat value: gradle');
+  });
+});
+
+
+describe('getPackageConfigsFromString', () => {
+  it('should parse list of package configurations', () => {
+    const result = getPackageConfigsFromString(JSON.stringify([
+      { name: 'core', path: 'packages/core/' },
+      { name: 'api', paths: ['packages/api/', 'shared/api/'], tagPattern: 'api/v{version}', dependencies: ['core'] },
+      { name: 'web', path: 'packages/web/', scopes: ['web', 'ui-*'] },
+    ]));
+    expect(result).toEqual([
+      { name: 'core', paths: ['packages/core/'] },
+      { name: 'api', paths: ['packages/api/', 'shared/api/'], tagPattern: 'api/v{version}', dependencies: ['core'] },
+      { name: 'web', paths: ['packages/web/'], scopes: ['web', 'ui-*'] },
+    ]);
+  });
+
+  it('should throw when value is not an array', () => {
+    expect(() => getPackageConfigsFromString('{}')).toThrow('Invalid PackageConfig value, expected an array: {}');
+  });
+
+  it('should throw for entry without name', () => {
+    expect(() => getPackageConfigsFromString('[{"path": "packages/core/"}]')).toThrow(
+      'Invalid PackageConfig entry, name is required: {"path":"packages/core/"}'
+    );
+  });
+
+  it('should throw for entry without path', () => {
+    expect(() => getPackageConfigsFromString('[{"name": "core", "paths": []}]')).toThrow(
+      "Invalid PackageConfig entry for package 'core', path or paths is required"
+    );
+  });
+
+  it('should throw for invalid scopes', () => {
+    expect(() => getPackageConfigsFromString('[{"name": "web", "path": "web/", "scopes": "web"}]')).toThrow(
+      "Invalid PackageConfig entry for package 'web', scopes must be an array of commit scopes"
+    );
+  });
+
+  it('should parse bump files of packages', () => {
+    expect(getPackageConfigsFromString('[{"name": "api", "path": "api/", "bumpFiles": ["api/package.json"]}]')).toEqual([
+      { name: 'api', paths: ['api/'], bumpFiles: [{ path: 'api/package.json', format: BumpFileFormat.PACKAGE_JSON }] },
+    ]);
+  });
+
+  it('should throw for invalid bump files', () => {
+    expect(() => getPackageConfigsFromString('[{"name": "api", "path": "api/", "bumpFiles": ["api/build.gradle"]}]')).toThrow(
+      "Invalid PackageConfig entry for package 'api', Cannot infer the format of file api/build.gradle, give it as 'api/build.gradle: format'"
+    );
+  });
+
+  it('should throw for duplicate package', () => {
+    expect(() => getPackageConfigsFromString('[{"name": "core", "path": "a/"}, {"name": "core", "path": "b/"}]')).toThrow(
+      "Invalid PackageConfig value, package 'core' is defined more than once"
+    );
+  });
+
+  it('should throw for unknown dependency', () => {
+    expect(() => getPackageConfigsFromString('[{"name": "api", "path": "api/", "dependencies": ["core"]}]')).toThrow(
+      "Invalid PackageConfig entry for package 'api', unknown dependency 'core'"
+    );
+  });
+});
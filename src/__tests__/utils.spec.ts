@@ -0,0 +1,45 @@
+import { describe, it, expect } from '@jest/globals';
+import { matchesGlobPattern, matchesPathPattern } from '../utils';
+
+
+describe('matchesGlobPattern', () => {
+  it('should match any characters with *', () => {
+    expect(matchesGlobPattern('release/1.2', 'release/*')).toBe(true);
+    expect(matchesGlobPattern('feature/a/b', '*')).toBe(true);
+    expect(matchesGlobPattern('hotfix/1.2', 'release/*')).toBe(false);
+  });
+
+  it('should treat other characters literally', () => {
+    expect(matchesGlobPattern('1.x', '1.x')).toBe(true);
+    expect(matchesGlobPattern('1ax', '1.x')).toBe(false);
+  });
+});
+
+
+describe('matchesPathPattern', () => {
+  it('should match single path segment with *', () => {
+    expect(matchesPathPattern('packages/api/package.json', 'packages/*/package.json')).toBe(true);
+    expect(matchesPathPattern('packages/api/src/package.json', 'packages/*/package.json')).toBe(false);
+  });
+
+  it('should match any number of directories with **', () => {
+    expect(matchesPathPattern('packages/api/src/index.ts', 'packages/api/**')).toBe(true);
+    expect(matchesPathPattern('README.md', '**/*.md')).toBe(true);
+    expect(matchesPathPattern('docs/guide/intro.md', '**/*.md')).toBe(true);
+    expect(matchesPathPattern('packages/web/index.ts', 'packages/api/**')).toBe(false);
+  });
+
+  it('should match everything within directory for patterns ending with /', () => {
+    expect(matchesPathPattern('packages/api/src/index.ts', 'packages/api/')).toBe(true);
+    expect(matchesPathPattern('packages/api-client/index.ts', 'packages/api/')).toBe(false);
+  });
+
+  it('should ignore leading ./', () => {
+    expect(matchesPathPattern('src/index.ts', './src/*.ts')).toBe(true);
+  });
+
+  it('should match single character with ?', () => {
+    expect(matchesPathPattern('v1/index.ts', 'v?/index.ts')).toBe(true);
+    expect(matchesPathPattern('v10/index.ts', 'v?/index.ts')).toBe(false);
+  });
+});
@@ -0,0 +1,68 @@
+import * as cc from '@conventional-commits/parser';
+
+import { Commit } from "./github/types";
+import { IGNORE_MESSAGE_PATTERN, noteHasBreakingChange } from "./logic";
+
+const BREAKING_CHANGES_SECTION_TITLE = 'Breaking Changes';
+
+const CHANGELOG_SECTIONS: Array<{ title: string; types: string[] }> = [
+  { title: 'Features', types: ['feat', 'feature'] },
+  { title: 'Bug Fixes', types: ['fix'] },
+  { title: 'Performance Improvements', types: ['perf'] },
+  { title: 'Reverts', types: ['revert'] },
+];
+
+
+/**
+ * Format a single changelog entry in form of `- **scope:** subject (sha)`.
+ */
+export const formatChangelogEntry = (subject: string, scope: string | null, sha: string): string => {
+  const scopePrefix = scope ? `**${scope}:** ` : '';
+  return `- ${scopePrefix}${subject} (${sha.substring(0, 7)})`;
+}
+
+
+/**
+ * Generate a Markdown changelog grouping conventional commits into sections.
+ * Commits which are not in conventional-commits format are skipped.
+ */
+export const generateChangelog = (commits: Array<Commit>): string => {
+  const breakingChanges: string[] = [];
+  const sections = new Map<string, string[]>(CHANGELOG_SECTIONS.map(section => [section.title, []]));
+
+  for (const commit of commits) {
+    if (IGNORE_MESSAGE_PATTERN.test(commit.message)) {
+      continue;
+    }
+
+    let commitMessage: cc.ConventionalChangelogCommit;
+    try {
+      commitMessage = cc.toConventionalChangelogFormat(cc.parser(commit.message));
+    } catch (error) {
+      continue;
+    }
+
+    const commitMessageType = commitMessage.type.toLowerCase();
+
+    for (const note of commitMessage.notes.filter(noteHasBreakingChange)) {
+      breakingChanges.push(formatChangelogEntry(note.text || commitMessage.subject, commitMessage.scope, commit.sha));
+    }
+
+    const section = CHANGELOG_SECTIONS.find(section => section.types.includes(commitMessageType));
+    if (section) {
+      sections.get(section.title).push(formatChangelogEntry(commitMessage.subject, commitMessage.scope, commit.sha));
+    }
+  }
+
+  const parts: string[] = [];
+  if (breakingChanges.length > 0) {
+    parts.push(`### ${BREAKING_CHANGES_SECTION_TITLE}\n\n${breakingChanges.join('\n')}`);
+  }
+  for (const [title, entries] of sections) {
+    if (entries.length > 0) {
+      parts.push(`### ${title}\n\n${entries.join('\n')}`);
+    }
+  }
+
+  return parts.join('\n\n');
+};
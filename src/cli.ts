@@ -0,0 +1,327 @@
+import { parseArgs } from 'node:util';
+
+import { LocalGitClient } from './git';
+import { GiteaClient } from './gitea';
+import { GitHubClient } from './github';
+import { getNextVersion } from './main';
+import { Backend, Logger, MainOptions, PackagesVersionResult, RepositoryClient, VersionResult, getBackendEnumFromString } from './types';
+
+
+export enum CliOutputFormat {
+  TEXT = 'text',
+  JSON = 'json',
+}
+
+/**
+ * Arguments of the `next` command.
+ */
+export interface CliArguments {
+  backend: Backend;
+  /** Repository, token and API URL, only used by the github and gitea backends */
+  repository: string | null;
+  token: string | null;
+  apiUrl: string | null;
+  /** Branch ref, or null to use the default branch of the repository, or the checked out branch with the git backend */
+  targetBranchRef: string | null;
+  notConventionalCommitsReaction: string;
+  initReleaseVersion: string;
+  preReleaseVersionGlue: string;
+  format: CliOutputFormat;
+  verbose: boolean;
+  options: MainOptions;
+}
+
+/**
+ * Error in the command line arguments.
+ */
+export class CliUsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CliUsageError';
+  }
+}
+
+export const CLI_USAGE = `Usage: action-semver next --repo <owner/repo> [options]
+       action-semver next --backend gitea --api-url <url> --repo <owner/repo> [options]
+       action-semver next --backend git [options]
+
+Determine the next version of a repository, the same way the action does.
+
+Options:
+  --backend <github|gitea|git>                 Read tags and commits from the GitHub or Gitea API, or from the working copy
+                                               in the current directory (default: github)
+  --repo <owner/repo>                          Repository to analyze (required with the github and gitea backends)
+  --token <token>                              Access token, defaults to GITHUB_TOKEN or GH_TOKEN environment variable,
+                                               or GITEA_TOKEN with the gitea backend
+  --api-url <url>                              URL of the API, e.g. https://gitea.example.com/api/v1 (required with the gitea backend)
+  --branch <branch>                            Target branch, defaults to the default branch of the repository,
+                                               or the checked out branch with the git backend
+  --sha <sha>                                  Commit SHA used in SHA pre-release suffixes, defaults to the SHA the branch points to
+  --format <text|json>                         Output format (default: text)
+  --verbose                                    Write the log to stderr
+  --help                                       Show this help
+
+  --not-conventional-commits-reaction <value>  (default: warn)
+  --init-release-version <version>             (default: v0.1.0)
+  --pre-release-version-glue <glue>            (default: -)
+  --pre-release-mode <sha|counter>
+  --pre-release-identifier <value>
+  --pre-release-template <template>
+  --run-number <number>                        Run number used in the pre-release template
+  --pr-number <number>                         Pull request number used in the pre-release template
+  --version-source <release|tag>
+  --tag-pattern <pattern>
+  --package-name <name>
+  --path <glob>                                Can be given multiple times
+  --scope <glob>                               Can be given multiple times
+  --packages <json>
+  --bump-dependents
+  --branches <json>
+  --bump-mapping <mapping>
+  --skip-release-when-not-needed
+  --initial-development-mode
+  --resolve-pull-requests                      Analyze pull request titles and labels (github backend only)
+
+See the inputs of the action for the meaning of the options.
+`;
+
+
+// Options of the `next` command, typed as constant so the types of the parsed values are inferred
+const CLI_OPTIONS = {
+  'backend': { type: 'string', default: Backend.GITHUB },
+  'repo': { type: 'string' },
+  'token': { type: 'string' },
+  'api-url': { type: 'string' },
+  'branch': { type: 'string' },
+  'sha': { type: 'string' },
+  'format': { type: 'string', default: CliOutputFormat.TEXT },
+  'verbose': { type: 'boolean', default: false },
+  'help': { type: 'boolean', short: 'h', default: false },
+  'not-conventional-commits-reaction': { type: 'string', default: 'warn' },
+  'init-release-version': { type: 'string', default: 'v0.1.0' },
+  'pre-release-version-glue': { type: 'string', default: '-' },
+  'pre-release-mode': { type: 'string' },
+  'pre-release-identifier': { type: 'string' },
+  'pre-release-template': { type: 'string' },
+  'run-number': { type: 'string' },
+  'pr-number': { type: 'string' },
+  'version-source': { type: 'string' },
+  'tag-pattern': { type: 'string' },
+  'package-name': { type: 'string' },
+  'path': { type: 'string', multiple: true, default: [] as Array<string> },
+  'scope': { type: 'string', multiple: true, default: [] as Array<string> },
+  'packages': { type: 'string' },
+  'bump-dependents': { type: 'boolean', default: false },
+  'branches': { type: 'string' },
+  'bump-mapping': { type: 'string' },
+  'skip-release-when-not-needed': { type: 'boolean', default: false },
+  'initial-development-mode': { type: 'boolean', default: false },
+  'resolve-pull-requests': { type: 'boolean', default: false },
+} as const;
+
+const parseCliOptions = (args: Array<string>) => parseArgs({ args, allowPositionals: true, options: CLI_OPTIONS });
+
+
+/**
+ * Parse the command line arguments of the CLI, without the node and script paths.
+ * Returns null if help was requested.
+ * Throws a CliUsageError if the arguments are invalid.
+ */
+export const parseCliArgs = (args: Array<string>, env: NodeJS.ProcessEnv = process.env): CliArguments | null => {
+  let parsed: ReturnType<typeof parseCliOptions>;
+  try {
+    parsed = parseCliOptions(args);
+  } catch (error) {
+    throw new CliUsageError(error.message);
+  }
+  const values = parsed.values;
+
+  if (values.help) {
+    return null;
+  }
+
+  const [command, ...rest] = parsed.positionals;
+  if (command !== 'next') {
+    throw new CliUsageError(command ? `Unknown command '${command}'` : 'Missing command');
+  }
+  if (rest.length > 0) {
+    throw new CliUsageError(`Unexpected argument '${rest[0]}'`);
+  }
+
+  let backend: Backend;
+  try {
+    backend = getBackendEnumFromString(values.backend);
+  } catch (error) {
+    throw new CliUsageError(`Invalid backend: ${error.message}`);
+  }
+
+  let repository: string | null = null;
+  let token: string | null = null;
+  if (backend !== Backend.GIT) {
+    if (!values.repo || !/^[^/\s]+\/[^/\s]+$/.test(values.repo)) {
+      throw new CliUsageError('Option --repo must be given in the format owner/repo');
+    }
+    repository = values.repo;
+  }
+  if (backend === Backend.GITHUB) {
+    token = values.token || env.GITHUB_TOKEN || env.GH_TOKEN;
+    if (!token) {
+      throw new CliUsageError('Option --token or environment variable GITHUB_TOKEN must be set');
+    }
+  } else if (backend === Backend.GITEA) {
+    // Public repositories can be read without a token
+    token = values.token || env.GITEA_TOKEN || '';
+    if (!values['api-url']) {
+      throw new CliUsageError('Option --api-url must be set with the gitea backend');
+    }
+  }
+
+  if (!Object.values<string>(CliOutputFormat).includes(values.format)) {
+    throw new CliUsageError(`Invalid output format '${values.format}', must be one of: ${Object.values(CliOutputFormat).join(', ')}`);
+  }
+
+  for (const name of ['run-number', 'pr-number'] as const) {
+    if (values[name] !== undefined && !/^\d+$/.test(values[name])) {
+      throw new CliUsageError(`Option --${name} must be a number`);
+    }
+  }
+
+  let targetBranchRef: string | null = null;
+  if (values.branch) {
+    targetBranchRef = values.branch.startsWith('refs/') ? values.branch : `refs/heads/${values.branch}`;
+  }
+
+  return {
+    backend,
+    repository,
+    token,
+    apiUrl: values['api-url'] ?? null,
+    targetBranchRef,
+    notConventionalCommitsReaction: values['not-conventional-commits-reaction'],
+    initReleaseVersion: values['init-release-version'],
+    preReleaseVersionGlue: values['pre-release-version-glue'],
+    format: values.format as CliOutputFormat,
+    verbose: values.verbose,
+    options: {
+      bumpMapping: values['bump-mapping'],
+      skipReleaseWhenNotNeeded: values['skip-release-when-not-needed'],
+      initialDevelopmentMode: values['initial-development-mode'],
+      resolvePullRequests: values['resolve-pull-requests'],
+      preReleaseMode: values['pre-release-mode'],
+      preReleaseIdentifier: values['pre-release-identifier'],
+      branches: values['branches'],
+      versionSource: values['version-source'],
+      tagPattern: values['tag-pattern'],
+      packageName: values['package-name'],
+      paths: values['path'],
+      scopes: values['scope'],
+      packages: values['packages'],
+      bumpDependents: values['bump-dependents'],
+      commitSha: values['sha'],
+      preReleaseTemplate: values['pre-release-template'],
+      runNumber: values['run-number'] !== undefined ? Number(values['run-number']) : undefined,
+      pullRequestNumber: values['pr-number'] !== undefined ? Number(values['pr-number']) : undefined,
+    },
+  };
+}
+
+
+/**
+ * Format the result of the version determination for printing.
+ */
+export const formatResult = (result: VersionResult | PackagesVersionResult, format: CliOutputFormat): string => {
+  if (format === CliOutputFormat.JSON) {
+    return JSON.stringify(result, null, 2);
+  }
+
+  if ('packages' in result) {
+    return Object.entries(result.packages)
+      .map(([name, packageVersion]) => packageVersion.releaseNeeded
+        ? `${name}: ${packageVersion.currentVersion || '-'} -> ${packageVersion.newVersion} (${packageVersion.newTag})`
+        : `${name}: ${packageVersion.currentVersion} (no release needed)`)
+      .join('\n');
+  }
+
+  return [
+    `Latest release tag: ${result.latestReleaseTag || '-'}`,
+    `Current version: ${result.currentVersion || '-'}`,
+    `New version: ${result.newVersion}`,
+    `New tag: ${result.newTag}`,
+    `Release needed: ${result.releaseNeeded}`,
+    `Bump type: ${result.bumpDecision.bumpType ?? 'none'}`,
+  ].join('\n');
+}
+
+
+/**
+ * Create the logger of the CLI writing to stderr, so that stdout only holds the result.
+ * In verbose mode the whole log is written, otherwise only warnings.
+ */
+export const createCliLogger = (verbose: boolean): Logger => ({
+  debug: message => {
+    if (verbose) {
+      process.stderr.write(`${message}\n`);
+    }
+  },
+  info: message => {
+    if (verbose) {
+      process.stderr.write(`${message}\n`);
+    }
+  },
+  warning: message => {
+    process.stderr.write(`Warning: ${message}\n`);
+  },
+});
+
+
+/**
+ * Run the CLI with the given arguments and return the exit code:
+ * 0 on success, 1 if the version cannot be determined and 2 on invalid arguments.
+ */
+export const runCli = async (args: Array<string>): Promise<number> => {
+  let cliArguments: CliArguments | null;
+  try {
+    cliArguments = parseCliArgs(args);
+  } catch (error) {
+    process.stderr.write(`${error.message}\n\n${CLI_USAGE}`);
+    return 2;
+  }
+  if (cliArguments === null) {
+    process.stdout.write(CLI_USAGE);
+    return 0;
+  }
+
+  const logger = createCliLogger(cliArguments.verbose);
+  let repositoryClient: RepositoryClient;
+  let getDefaultTargetBranchRef: () => Promise<string>;
+  if (cliArguments.backend === Backend.GIT) {
+    const localGitClient = new LocalGitClient(process.cwd(), logger);
+    repositoryClient = localGitClient;
+    getDefaultTargetBranchRef = () => localGitClient.getHeadRef();
+  } else {
+    repositoryClient = cliArguments.backend === Backend.GITEA
+      ? new GiteaClient(cliArguments.token, cliArguments.repository, cliArguments.apiUrl, logger)
+      : new GitHubClient(cliArguments.token, cliArguments.repository, cliArguments.apiUrl ?? undefined, logger);
+    getDefaultTargetBranchRef = async () => `refs/heads/${await repositoryClient.getDefaultBranchName()}`;
+  }
+
+  let result: VersionResult | PackagesVersionResult;
+  try {
+    const targetBranchRef = cliArguments.targetBranchRef ?? await getDefaultTargetBranchRef();
+    result = await getNextVersion(
+      repositoryClient,
+      targetBranchRef,
+      cliArguments.notConventionalCommitsReaction,
+      cliArguments.initReleaseVersion,
+      cliArguments.preReleaseVersionGlue,
+      cliArguments.options,
+      logger
+    );
+  } catch (error) {
+    process.stderr.write(`${error.message}\n`);
+    return 1;
+  }
+
+  process.stdout.write(`${formatResult(result, cliArguments.format)}\n`);
+  return 0;
+}
@@ -0,0 +1,228 @@
+import * as core from '@actions/core';
+import { readFile, writeFile } from 'node:fs/promises';
+import { resolve } from 'node:path';
+
+import { renderVersionFormats } from './formats';
+import { BumpFileConfig, BumpFileFormat } from './types';
+
+
+/**
+ * Replace the text between two indexes of the content.
+ */
+const replaceRange = (content: string, start: number, end: number, replacement: string): string => {
+  return content.substring(0, start) + replacement + content.substring(end);
+}
+
+
+/**
+ * Replace the value of the top-level `version` property of a JSON document, leaving the rest of it untouched.
+ * Returns null if there is no such property.
+ */
+const bumpJsonVersion = (content: string, version: string): string | null => {
+  let depth = 0;
+  let index = 0;
+
+  while (index < content.length) {
+    const char = content[index];
+
+    if (char === '"') {
+      // Skip the whole string, remembering it if it is a top-level key
+      const stringStart = index;
+      index++;
+      while (index < content.length && content[index] !== '"') {
+        index += content[index] === '\\' ? 2 : 1;
+      }
+      index++;
+
+      if (depth === 1 && content.substring(stringStart, index) === '"version"') {
+        const value = content.substring(index).match(/^\s*:\s*"((?:[^"\\]|\\.)*)"/);
+        if (value) {
+          const valueStart = index + value[0].length - value[1].length - 1;
+          return replaceRange(content, valueStart, valueStart + value[1].length, version);
+        }
+      }
+      continue;
+    }
+
+    if (char === '{' || char === '[') {
+      depth++;
+    } else if (char === '}' || char === ']') {
+      depth--;
+    }
+    index++;
+  }
+
+  return null;
+}
+
+
+/**
+ * Replace the version of the `[project]` table of a pyproject.toml file, or of the `[tool.poetry]` table
+ * if there is none. Returns null if neither of them has a version.
+ */
+const bumpPyprojectVersion = (content: string, version: string): string | null => {
+  const lines = content.split('\n');
+  const versionLineIndexes: Record<string, number> = {};
+  let table = '';
+
+  lines.forEach((line, lineIndex) => {
+    const header = line.match(/^\s*\[([^\[\]]+)\]\s*(#.*)?$/);
+    if (header) {
+      table = header[1].replace(/\s|["']/g, '');
+    } else if (/^\s*version\s*=\s*["']/.test(line) && versionLineIndexes[table] === undefined) {
+      versionLineIndexes[table] = lineIndex;
+    } else if (/^\s*\[\[/.test(line)) {
+      table = '';
+    }
+  });
+
+  const lineIndex = versionLineIndexes['project'] ?? versionLineIndexes['tool.poetry'];
+  if (lineIndex === undefined) {
+    return null;
+  }
+
+  lines[lineIndex] = lines[lineIndex].replace(/^(\s*version\s*=\s*)(["'])[^"']*\2/, `$1$2${version}$2`);
+  return lines.join('\n');
+}
+
+
+/**
+ * Replace the top-level `version` of a Helm Chart.yaml file, keeping its quotes and comments.
+ * Returns null if there is no such key.
+ */
+const bumpChartVersion = (content: string, version: string): string | null => {
+  const pattern = /^(version:[ \t]*)(["']?)[^"'\s#]*\2/m;
+  if (!pattern.test(content)) {
+    return null;
+  }
+  return content.replace(pattern, `$1$2${version}$2`);
+}
+
+
+/**
+ * Replace the version of the project itself in a Maven pom.xml file.
+ * Versions of the parent, dependencies and plugins as well as commented out elements are left untouched.
+ * Returns null if the project has no version of its own.
+ */
+const bumpPomVersion = (content: string, version: string): string | null => {
+  // Blank out comments keeping the indexes, so elements inside them are not matched
+  const searchable = content.replace(/<!--[\s\S]*?-->/g, comment => ' '.repeat(comment.length));
+  const tagPattern = /<(\/?)([\w.:-]+)[^>]*?(\/?)>/g;
+  const elements: Array<string> = [];
+
+  let tag: RegExpExecArray | null;
+  while ((tag = tagPattern.exec(searchable)) !== null) {
+    const [, closing, name, selfClosing] = tag;
+    if (closing) {
+      elements.pop();
+    } else if (selfClosing) {
+      continue;
+    } else if (name === 'version' && elements.length === 1 && elements[0] === 'project') {
+      const valueStart = tag.index + tag[0].length;
+      const valueEnd = searchable.indexOf('</version>', valueStart);
+      if (valueEnd === -1) {
+        return null;
+      }
+      // Keep whitespace around the value
+      const value = content.substring(valueStart, valueEnd);
+      const trimmedStart = valueStart + value.length - value.trimStart().length;
+      return replaceRange(content, trimmedStart, trimmedStart + value.trim().length, version);
+    } else {
+      elements.push(name);
+    }
+  }
+
+  return null;
+}
+
+
+/**
+ * Replace the content of a plain text file holding just the version, keeping its surrounding whitespace.
+ */
+const bumpTextVersion = (content: string, version: string): string => {
+  const match = content.match(/^(\s*)\S*(\s*)$/);
+  if (!match) {
+    return `${version}\n`;
+  }
+  return `${match[1]}${version}${match[2] || '\n'}`;
+}
+
+
+/**
+ * Convert the version to the rules of the ecosystem of the file format, e.g. PEP 440 for pyproject.toml,
+ * rendered like the version format outputs so the files and the outputs agree.
+ * @param stable Whether the version is released as a stable version
+ */
+export const getVersionForFormat = (version: string, format: BumpFileFormat, stable: boolean): string => {
+  switch (format) {
+    case BumpFileFormat.PYPROJECT:
+      return renderVersionFormats(version, stable).pep440;
+    case BumpFileFormat.POM:
+      return renderVersionFormats(version, stable).maven;
+    default:
+      return version;
+  }
+}
+
+
+/**
+ * Write the version into the content of a file of the given format, preserving its formatting.
+ * Throws an error if the content has no version field.
+ * @param stable Whether the version is released as a stable version
+ * @param path Path of the file used in error messages
+ */
+export const bumpVersionInContent = (content: string, format: BumpFileFormat, version: string, stable: boolean, path: string): string => {
+  const formattedVersion = getVersionForFormat(version, format, stable);
+  let bumpedContent: string | null;
+
+  switch (format) {
+    case BumpFileFormat.PACKAGE_JSON:
+      bumpedContent = bumpJsonVersion(content, formattedVersion);
+      break;
+    case BumpFileFormat.PYPROJECT:
+      bumpedContent = bumpPyprojectVersion(content, formattedVersion);
+      break;
+    case BumpFileFormat.CHART:
+      bumpedContent = bumpChartVersion(content, formattedVersion);
+      break;
+    case BumpFileFormat.POM:
+      bumpedContent = bumpPomVersion(content, formattedVersion);
+      break;
+    case BumpFileFormat.TEXT:
+      bumpedContent = bumpTextVersion(content, formattedVersion);
+      break;
+  }
+
+  if (bumpedContent === null) {
+    throw new Error(`No version field found in ${path}`);
+  }
+  return bumpedContent;
+}
+
+
+/**
+ * Write the version into each of the files, converted to the rules of its format.
+ * @param stable Whether the version is released as a stable version
+ * @param workingDirectory Directory the paths of the files are relative to
+ * @returns Paths of the written files
+ */
+export const bumpVersionInFiles = async (
+  bumpFiles: Array<BumpFileConfig>,
+  version: string,
+  stable: boolean,
+  workingDirectory: string = process.cwd()
+): Promise<Array<string>> => {
+  const bumpedFiles: Array<string> = [];
+
+  for (const bumpFile of bumpFiles) {
+    const filePath = resolve(workingDirectory, bumpFile.path);
+    const content = await readFile(filePath, 'utf8');
+    const bumpedContent = bumpVersionInContent(content, bumpFile.format, version, stable, bumpFile.path);
+
+    core.info(`Writing version ${getVersionForFormat(version, bumpFile.format, stable)} into ${bumpFile.path}.`);
+    await writeFile(filePath, bumpedContent, 'utf8');
+    bumpedFiles.push(bumpFile.path);
+  }
+
+  return bumpedFiles;
+}
@@ -0,0 +1,177 @@
+import * as semver from 'semver';
+
+import { FormattedVersions } from './types';
+
+// Pre-release identifiers with an equivalent PEP 440 pre-release phase
+const PEP_440_PRE_RELEASE_PHASES: Record<string, string> = {
+  alpha: 'a',
+  a: 'a',
+  beta: 'b',
+  b: 'b',
+  rc: 'rc',
+  c: 'rc',
+  pre: 'rc',
+  preview: 'rc',
+};
+
+// Qualifiers of release candidates and earlier, which Maven orders before the release like semver pre-releases.
+// Other qualifiers would be ordered after the release, so such pre-releases become snapshots.
+const MAVEN_PRE_RELEASE_QUALIFIERS = ['alpha', 'a', 'beta', 'b', 'milestone', 'm', 'rc', 'cr'];
+
+// Abbreviated or full commit SHA, e.g. `c123456` of the default pre-release suffix
+const COMMIT_SHA_PATTERN = /^[0-9a-f]{7,40}$/i;
+
+
+/**
+ * Normalize identifiers to a PEP 440 local version label, e.g. `abc1234.build.5`.
+ */
+const toPep440LocalVersion = (identifiers: Array<string>): string => {
+  return identifiers
+    .map(identifier => identifier.toLowerCase().replace(/[^a-z0-9]+/g, '.').replace(/^\.+|\.+$/g, ''))
+    .filter(identifier => identifier !== '')
+    .join('.');
+}
+
+
+/**
+ * Split a pre-release identifier consisting of a label optionally followed by digits into the lowercased label
+ * and the number, e.g. `RC1` into `rc` and `1`. Returns null for other identifiers and for identifiers which look
+ * like a commit SHA, e.g. `c123456`, so they are not mistaken for a label.
+ */
+const parsePreReleaseLabel = (identifier: string): { label: string, number: string } | null => {
+  const match = identifier.match(/^([a-zA-Z]+)(\d*)$/);
+  if (!match || COMMIT_SHA_PATTERN.test(identifier)) {
+    return null;
+  }
+  return { label: match[1].toLowerCase(), number: match[2] };
+}
+
+
+/**
+ * Parse a semver version, throwing an error if it is not valid.
+ */
+const parseVersion = (version: string): semver.SemVer => {
+  const parsed = semver.parse(version);
+  if (!parsed) {
+    throw new Error(`Invalid semver version: ${version}`);
+  }
+  return parsed;
+}
+
+
+/**
+ * Turn the build metadata of a version without pre-release identifiers into pre-release identifiers,
+ * e.g. `1.2.3+devabc1234` into `1.2.3-devabc1234`. Pre-release versions suffixed with a glue starting with `+`
+ * are releases for semver, so they have to be turned into pre-releases for the other ecosystems.
+ */
+export const toPreReleaseVersion = (version: string): string => {
+  const parsed = parseVersion(version);
+  if (parsed.prerelease.length > 0 || parsed.build.length === 0) {
+    return version;
+  }
+  return `${parsed.major}.${parsed.minor}.${parsed.patch}-${parsed.build.join('.')}`;
+}
+
+
+/**
+ * Convert a semver version to a PEP 440 version of Python packages.
+ * Pre-releases of a known phase become PEP 440 pre-releases (`1.2.3-rc.1` → `1.2.3rc1`), `dev` ones become
+ * development releases (`1.2.3-dev.4` → `1.2.3.dev4`, `1.2.3-devabc1234` → `1.2.3.dev0+abc1234`), and other ones development releases with the identifiers
+ * as local version (`1.2.3-abc1234` → `1.2.3.dev0+abc1234`), so they still sort before the release.
+ * Build metadata becomes the local version (`1.2.3+build.5` → `1.2.3+build.5`).
+ */
+export const toPep440Version = (version: string): string => {
+  const parsed = parseVersion(version);
+
+  let pep440Version = `${parsed.major}.${parsed.minor}.${parsed.patch}`;
+  const localIdentifiers: Array<string> = [];
+
+  if (parsed.prerelease.length > 0) {
+    let [first, ...rest] = parsed.prerelease.map(String);
+    // Commit SHA suffixed with the `dev` glue, e.g. `1.2.3-devabc1234`
+    const devCommit = first.match(/^dev([0-9a-f]{7,40})$/i);
+    if (devCommit) {
+      [first, rest] = ['dev', [devCommit[1], ...rest]];
+    }
+    // The number may be part of the first identifier (`rc1`) or the next one (`rc.1`)
+    const { label = '', number: phaseNumber = '' } = parsePreReleaseLabel(first) ?? {};
+    const pep440Phase = PEP_440_PRE_RELEASE_PHASES[label];
+    const isDevelopment = label === 'dev';
+
+    if (pep440Phase || isDevelopment) {
+      let number = phaseNumber;
+      if (!devCommit && number === '' && /^\d+$/.test(rest[0] ?? '')) {
+        number = rest.shift();
+      }
+      pep440Version += pep440Phase ? `${pep440Phase}${Number(number || 0)}` : `.dev${Number(number || 0)}`;
+      localIdentifiers.push(...rest);
+    } else {
+      pep440Version += '.dev0';
+      localIdentifiers.push(first, ...rest);
+    }
+  }
+  localIdentifiers.push(...parsed.build);
+
+  const localVersion = toPep440LocalVersion(localIdentifiers);
+  return localVersion ? `${pep440Version}+${localVersion}` : pep440Version;
+}
+
+
+/**
+ * Convert a semver version to a NuGet version.
+ * NuGet compares pre-release labels case-insensitively, so they are lowercased for NuGet to order them like semver.
+ */
+export const toNuGetVersion = (version: string): string => {
+  const parsed = parseVersion(version);
+  const preRelease = parsed.prerelease.length > 0 ? `-${parsed.prerelease.join('.').toLowerCase()}` : '';
+  const build = parsed.build.length > 0 ? `+${parsed.build.join('.')}` : '';
+  return `${parsed.major}.${parsed.minor}.${parsed.patch}${preRelease}${build}`;
+}
+
+
+/**
+ * Convert a semver version to a Maven version.
+ * Release candidates and earlier pre-releases (`1.2.3-rc.1`) are kept, other pre-releases become snapshots
+ * (`1.2.3-abc1234` → `1.2.3-SNAPSHOT`). Build metadata is dropped, Maven would order it as a qualifier.
+ */
+export const toMavenVersion = (version: string): string => {
+  const parsed = parseVersion(version);
+  const release = `${parsed.major}.${parsed.minor}.${parsed.patch}`;
+  if (parsed.prerelease.length === 0) {
+    return release;
+  }
+
+  const qualifier = parsePreReleaseLabel(String(parsed.prerelease[0]))?.label;
+  if (MAVEN_PRE_RELEASE_QUALIFIERS.includes(qualifier)) {
+    return `${release}-${parsed.prerelease.join('.')}`;
+  }
+  return `${release}-SNAPSHOT`;
+}
+
+
+/**
+ * Convert a semver version to a Docker image tag, which must not contain `+`.
+ * Like Helm does for charts in OCI registries, `+` is replaced by `_`, so the tag stays unique.
+ */
+export const toDockerTag = (version: string): string => {
+  parseVersion(version);
+  // Docker tags are limited to 128 characters
+  return version.replace(/\+/g, '_').substring(0, 128);
+}
+
+
+/**
+ * Render the version for the version rules of package ecosystems.
+ * Versions of branches which do not release stable versions are rendered as pre-releases
+ * even if they are suffixed with a glue starting with `+`.
+ * @param stable Whether the version is released as a stable version
+ */
+export const renderVersionFormats = (version: string, stable: boolean): FormattedVersions => {
+  const preReleaseVersion = stable ? version : toPreReleaseVersion(version);
+  return {
+    pep440: toPep440Version(preReleaseVersion),
+    nuget: toNuGetVersion(preReleaseVersion),
+    maven: toMavenVersion(preReleaseVersion),
+    docker: toDockerTag(version),
+  };
+}
@@ -0,0 +1,206 @@
+import { execFile } from 'node:child_process';
+import { promisify } from 'node:util';
+import * as semver from 'semver';
+import { Commit, Tag } from '../github/types';
+import { Logger, RepositoryClient } from '../types';
+import { actionsLogger } from '../utils';
+
+const execFileAsync = promisify(execFile);
+
+// Separators of the commit log format, which cannot appear in commit messages
+const RECORD_SEPARATOR = '\x1e';
+const FIELD_SEPARATOR = '\x00';
+const COMMIT_LOG_FORMAT = '--format=%x1e%H%x00%B%x00';
+
+
+/**
+ * Reads tags and commits from a local git working copy, without a token or network access.
+ * The working copy needs the full history and all tags, e.g. checked out with `fetch-depth: 0`.
+ * There are no GitHub Releases in a working copy, so every tag is treated as a release.
+ */
+export class LocalGitClient implements RepositoryClient {
+  private workingDirectory: string;
+  private logger: Logger;
+
+
+  /**
+   * @param logger Receives the log, defaults to the workflow log
+   */
+  constructor(workingDirectory: string = process.cwd(), logger: Logger = actionsLogger) {
+    this.workingDirectory = workingDirectory;
+    this.logger = logger;
+  }
+
+  /**
+   * Run a git command in the working copy and return its output.
+   */
+  private async git(...args: Array<string>): Promise<string> {
+    this.logger.debug(`Running git ${args.join(' ')}`);
+    const { stdout } = await execFileAsync('git', args, {
+      cwd: this.workingDirectory,
+      maxBuffer: 256 * 1024 * 1024,
+    });
+    return stdout;
+  }
+
+  /**
+   * Get the SHA of the commit a git reference points to, or null if it cannot be resolved.
+   * Branches and pull request refs which only exist as remote-tracking refs of `origin` are resolved as well.
+   */
+  private async resolveRef(ref: string): Promise<string | null> {
+    const candidates = [ref];
+    if (ref.startsWith('refs/heads/')) {
+      candidates.push(`refs/remotes/origin/${ref.substring('refs/heads/'.length)}`);
+    } else if (ref.startsWith('refs/pull/')) {
+      candidates.push(`refs/remotes/pull/${ref.substring('refs/pull/'.length)}`);
+    }
+
+    for (const candidate of candidates) {
+      try {
+        return (await this.git('rev-parse', '--verify', '--quiet', `${candidate}^{commit}`)).trim();
+      } catch (error) {
+        this.logger.debug(`Failed to resolve ${candidate}: ${error.message}`);
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Get the latest release tag name, or null if no releases exist.
+   * As every tag is treated as a release, this is the tag with the highest stable semver version.
+   */
+  async getLatestReleaseTag(): Promise<string | null> {
+    return this.getLatestVersionTag();
+  }
+
+  /**
+   * Get the tag names of all releases, which are all tags in a working copy.
+   */
+  async getReleaseTagNames(): Promise<Array<string>> {
+    return this.getTagNames();
+  }
+
+  /**
+   * Get a list of commits between two git references (branches, tags, SHAs).
+   * The returned commits are ordered from the oldest to the newest.
+   */
+  async getListOfCommitsBetween(rangeBegin: string, rangeEnd: string, includeFiles: boolean = false): Promise<Array<Commit>> {
+    this.logger.debug(`Getting list of commits between ${rangeBegin} and ${rangeEnd}`);
+    const listOfCommits = await this.getLog(
+      ['--reverse', `${await this.getCommitSha(rangeBegin)}..${await this.getCommitSha(rangeEnd)}`],
+      includeFiles
+    );
+    this.logger.debug(`Total commits fetched: ${listOfCommits.length}`);
+    return listOfCommits;
+  }
+
+  /**
+   * Get a list of files changed by a commit.
+   */
+  async getListOfFilesChangedBy(sha: string): Promise<Array<string>> {
+    const [commit] = await this.getLog(['-1', sha], true);
+    this.logger.debug(`Commit ${sha} changed ${commit.files.length} files`);
+    return commit.files;
+  }
+
+  /**
+   * Get the commits of the log with the given revision arguments, optionally with the files they changed.
+   */
+  private async getLog(revisionArgs: Array<string>, includeFiles: boolean): Promise<Array<Commit>> {
+    const output = await this.git('log', COMMIT_LOG_FORMAT, ...(includeFiles ? ['--name-only'] : []), ...revisionArgs);
+
+    return output
+      .split(RECORD_SEPARATOR)
+      .slice(1)
+      .map(record => {
+        const [sha, message, files] = record.split(FIELD_SEPARATOR);
+        const commit: Commit = { sha, message: message.trimEnd() };
+        if (includeFiles) {
+          commit.files = files.split('\n').filter(file => file !== '');
+        }
+        return commit;
+      });
+  }
+
+  /**
+   * Get the names of all tags in the repository.
+   */
+  async getTagNames(): Promise<Array<string>> {
+    return (await this.getTags()).map(tag => tag.name);
+  }
+
+  /**
+   * Get all tags in the repository together with the SHAs of the commits they point to.
+   * Annotated tags are resolved to the commit they point to.
+   */
+  async getTags(): Promise<Array<Tag>> {
+    this.logger.debug('Getting list of tags');
+    const output = await this.git('for-each-ref', '--format=%(refname:strip=2)%00%(objectname)%00%(*objectname)', 'refs/tags');
+    const tags = output
+      .split('\n')
+      .filter(line => line !== '')
+      .map(line => {
+        const [name, objectSha, commitSha] = line.split(FIELD_SEPARATOR);
+        return { name, sha: commitSha || objectSha };
+      });
+    this.logger.debug(`Total tags fetched: ${tags.length}`);
+    return tags;
+  }
+
+  /**
+   * Get the name of the tag with the highest stable semver version, or null if there is none.
+   * Tags which are not valid semver versions and pre-release versions are skipped.
+   */
+  async getLatestVersionTag(): Promise<string | null> {
+    const versionTags = (await this.getTagNames())
+      .filter(tag => semver.valid(tag) && !semver.prerelease(tag));
+    this.logger.debug(`Found ${versionTags.length} stable semver tags`);
+    versionTags.sort((a, b) => semver.rcompare(a, b));
+    return versionTags[0] ?? null;
+  }
+
+  /**
+   * Get the SHA of the commit a git reference (branch, tag, SHA) points to.
+   * Throws an error if the reference does not exist in the working copy.
+   */
+  async getCommitSha(ref: string): Promise<string> {
+    const sha = await this.resolveRef(ref);
+    if (!sha) {
+      throw new Error(`Git reference ${ref} does not exist in the working copy`);
+    }
+    return sha;
+  }
+
+  /**
+   * Get the ref of the branch checked out in the working copy, or `HEAD` if it is detached.
+   */
+  async getHeadRef(): Promise<string> {
+    try {
+      return (await this.git('symbolic-ref', '--quiet', 'HEAD')).trim();
+    } catch (error) {
+      this.logger.debug(`HEAD is detached: ${error.message}`);
+      return 'HEAD';
+    }
+  }
+
+  /**
+   * Get the default branch name of the repository, which is the branch `origin/HEAD` points to.
+   * Falls back to `main` or `master` if `origin/HEAD` is not set, as in checkouts made by `actions/checkout`.
+   */
+  async getDefaultBranchName(): Promise<string> {
+    try {
+      const remoteHead = (await this.git('symbolic-ref', '--short', 'refs/remotes/origin/HEAD')).trim();
+      return remoteHead.substring('origin/'.length);
+    } catch (error) {
+      this.logger.debug(`Failed to resolve origin/HEAD: ${error.message}`);
+    }
+
+    for (const branchName of ['main', 'master']) {
+      if (await this.resolveRef(`refs/heads/${branchName}`)) {
+        return branchName;
+      }
+    }
+    throw new Error('Failed to determine the default branch, origin/HEAD is not set and there is no main or master branch');
+  }
+
+}
@@ -0,0 +1,3 @@
+import { LocalGitClient } from "./LocalGitClient";
+
+export { LocalGitClient };
@@ -0,0 +1,220 @@
+import * as semver from 'semver';
+import { Commit, Tag } from '../github/types';
+import { Logger, RepositoryClient } from '../types';
+import { actionsLogger } from '../utils';
+
+
+/**
+ * Error response of the Gitea API, with the HTTP status like the errors of Octokit.
+ */
+export class GiteaRequestError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'GiteaRequestError';
+    this.status = status;
+  }
+}
+
+
+/**
+ * Reads tags, releases and commits of a repository on a Gitea (or Forgejo) instance through its REST API.
+ */
+export class GiteaClient implements RepositoryClient {
+  private token: string;
+  private apiUrl: string;
+  private repoOwner: string;
+  private repoName: string;
+  private logger: Logger;
+
+  // Maximum page size of the Gitea API with the default configuration
+  private static readonly PAGE_SIZE = 50;
+
+
+  /**
+   * @param token Access token, may be empty for public repositories
+   * @param fullRepoName Repository in the format 'owner/repo'
+   * @param baseUrl URL of the Gitea instance, e.g. `https://gitea.example.com`
+   * @param logger Receives the log, defaults to the workflow log
+   */
+  constructor(token: string, fullRepoName: string, baseUrl: string, logger: Logger = actionsLogger) {
+    this.logger = logger;
+    const [owner, repo] = fullRepoName.split('/');
+    this.token = token;
+    this.apiUrl = `${baseUrl.replace(/\/+$/, '').replace(/\/api\/v1$/, '')}/api/v1`;
+    this.repoOwner = owner;
+    this.repoName = repo;
+  }
+
+  /**
+   * Send a GET request to an endpoint of the repository and return the parsed JSON response.
+   * Throws a GiteaRequestError if the response is not successful.
+   */
+  private async get<T>(path: string, params: Record<string, string | number | boolean> = {}): Promise<T> {
+    const url = new URL(`${this.apiUrl}/repos/${encodeURIComponent(this.repoOwner)}/${encodeURIComponent(this.repoName)}${path}`);
+    for (const [name, value] of Object.entries(params)) {
+      url.searchParams.set(name, String(value));
+    }
+
+    this.logger.debug(`GET ${url}`);
+    const response = await fetch(url, {
+      headers: {
+        Accept: 'application/json',
+        ...(this.token ? { Authorization: `token ${this.token}` } : {}),
+      },
+    });
+    if (!response.ok) {
+      throw new GiteaRequestError(`GET ${url.pathname} failed with status ${response.status}: ${await response.text()}`, response.status);
+    }
+    return await response.json() as T;
+  }
+
+  /**
+   * Get all items of a paginated endpoint of the repository.
+   */
+  private async getAllPages<T>(path: string, params: Record<string, string | number | boolean> = {}): Promise<Array<T>> {
+    const items: Array<T> = [];
+    let page = 1;
+
+    while(true) {
+      const pageItems = await this.get<Array<T>>(path, { ...params, page, limit: GiteaClient.PAGE_SIZE });
+      items.push(...pageItems);
+
+      if (pageItems.length < GiteaClient.PAGE_SIZE) {
+        break;
+      }
+
+      page++;
+    }
+
+    return items;
+  }
+
+  /**
+   * Get the name of a branch or tag as used in the Gitea API, e.g. `main` from `refs/heads/main`.
+   */
+  private getRefName(ref: string): string {
+    return ref.replace(/^refs\/(heads|tags)\//, '');
+  }
+
+  /**
+   * Get the latest release tag name, or null if no releases exist.
+   */
+  async getLatestReleaseTag(): Promise<string | null> {
+    try {
+      const release = await this.get<{ tag_name: string }>('/releases/latest');
+      return release.tag_name;
+    } catch (error) {
+      if (error.status === 404) {
+        return null; // No releases found
+      }
+      throw error; // Rethrow other errors
+    }
+  }
+
+  /**
+   * Get the tag names of all published releases, excluding drafts and pre-releases.
+   */
+  async getReleaseTagNames(): Promise<Array<string>> {
+    this.logger.debug('Getting list of releases');
+    const releases = await this.getAllPages<{ tag_name: string, draft: boolean, prerelease: boolean }>('/releases');
+    this.logger.debug(`Total releases fetched: ${releases.length}`);
+    return releases
+      .filter(release => !release.draft && !release.prerelease)
+      .map(release => release.tag_name);
+  }
+
+  /**
+   * Get a list of commits between two git references (branches, tags, SHAs).
+   * If `includeFiles` is set, the list of files changed by each commit is fetched as well,
+   * which requires an additional request per commit.
+   */
+  async getListOfCommitsBetween(rangeBegin: string, rangeEnd: string, includeFiles: boolean = false): Promise<Array<Commit>> {
+    this.logger.debug(`Getting list of commits between ${rangeBegin} and ${rangeEnd}`);
+    const comparison = await this.get<{ commits: Array<{ sha: string, commit: { message: string } }> }>(
+      `/compare/${encodeURIComponent(this.getRefName(rangeBegin))}...${encodeURIComponent(this.getRefName(rangeEnd))}`
+    );
+    const listOfCommits: Array<Commit> = comparison.commits.map(commit => ({
+      sha: commit.sha,
+      message: commit.commit.message,
+    }));
+    this.logger.debug(`Total commits fetched: ${listOfCommits.length}`);
+
+    if (includeFiles) {
+      for (const commit of listOfCommits) {
+        commit.files = await this.getListOfFilesChangedBy(commit.sha);
+      }
+    }
+
+    return listOfCommits;
+  }
+
+  /**
+   * Get a list of files changed by a commit.
+   */
+  async getListOfFilesChangedBy(sha: string): Promise<Array<string>> {
+    const commit = await this.get<{ files?: Array<{ filename: string }> }>(`/git/commits/${sha}`, { stat: false, verification: false });
+    const listOfFiles = (commit.files ?? []).map(file => file.filename);
+    this.logger.debug(`Commit ${sha} changed ${listOfFiles.length} files`);
+    return listOfFiles;
+  }
+
+  /**
+   * Get the names of all tags in the repository.
+   */
+  async getTagNames(): Promise<Array<string>> {
+    return (await this.getTags()).map(tag => tag.name);
+  }
+
+  /**
+   * Get all tags in the repository together with the SHAs of the commits they point to.
+   */
+  async getTags(): Promise<Array<Tag>> {
+    this.logger.debug('Getting list of tags');
+    const tags = await this.getAllPages<{ name: string, commit: { sha: string } }>('/tags');
+    this.logger.debug(`Total tags fetched: ${tags.length}`);
+    return tags.map(tag => ({
+      name: tag.name,
+      sha: tag.commit.sha,
+    }));
+  }
+
+  /**
+   * Get the name of the tag with the highest stable semver version, or null if there is none.
+   * Tags which are not valid semver versions and pre-release versions are skipped.
+   */
+  async getLatestVersionTag(): Promise<string | null> {
+    const versionTags = (await this.getTagNames())
+      .filter(tag => semver.valid(tag) && !semver.prerelease(tag));
+    this.logger.debug(`Found ${versionTags.length} stable semver tags`);
+    versionTags.sort((a, b) => semver.rcompare(a, b));
+    return versionTags[0] ?? null;
+  }
+
+  /**
+   * Get the SHA of the commit a git reference (branch, tag, SHA) points to.
+   */
+  async getCommitSha(ref: string): Promise<string> {
+    const commits = await this.get<Array<{ sha: string }>>('/commits', {
+      sha: this.getRefName(ref),
+      stat: false,
+      verification: false,
+      files: false,
+      limit: 1,
+    });
+    if (commits.length === 0) {
+      throw new Error(`Git reference ${ref} does not point to any commit`);
+    }
+    return commits[0].sha;
+  }
+
+  /**
+   * Get the default branch name of the repository.
+   */
+  async getDefaultBranchName(): Promise<string> {
+    const repository = await this.get<{ default_branch: string }>('');
+    return repository.default_branch;
+  }
+
+}
@@ -0,0 +1,3 @@
+import { GiteaClient } from "./GiteaClient";
+
+export { GiteaClient };
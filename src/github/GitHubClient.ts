@@ -1,20 +1,73 @@
-import * as core from '@actions/core';
 import { getOctokit } from '@actions/github';
-import { Commit } from './types';
+import * as semver from 'semver';
+import { Logger, RepositoryClient } from '../types';
+import { actionsLogger } from '../utils';
+import { Commit, IssueComment, PullRequest, Release, Tag } from './types';
 
 
-export class GitHubClient {
+// Number of commits whose pull requests are queried with a single GraphQL request
+const PULL_REQUESTS_QUERY_COMMITS = 100;
+
+// Pull requests associated with commits, queried with aliases `c0`, `c1`, ... per commit
+const getPullRequestsOfCommitsQuery = (commitCount: number): string => {
+  const indexes = Array.from({ length: commitCount }, (_, index) => index);
+  return `
+    query($owner: String!, $repo: String!, ${indexes.map(index => `$sha${index}: GitObjectID!`).join(', ')}) {
+      repository(owner: $owner, name: $repo) {
+        ${indexes.map(index => `c${index}: object(oid: $sha${index}) { ...PullRequestsOfCommit }`).join('\n        ')}
+      }
+    }
+
+    fragment PullRequestsOfCommit on Commit {
+      associatedPullRequests(first: 10) {
+        nodes {
+          number
+          title
+          merged
+          mergeCommit { oid }
+          labels(first: 50) { nodes { name } }
+        }
+      }
+    }
+  `;
+};
+
+interface PullRequestsOfCommitsQueryResponse {
+  repository: Record<string, {
+    associatedPullRequests?: {
+      nodes: Array<{
+        number: number,
+        title: string,
+        merged: boolean,
+        mergeCommit: { oid: string } | null,
+        labels: { nodes: Array<{ name: string }> },
+      }>;
+    };
+  } | null>;
+}
+
+
+export class GitHubClient implements RepositoryClient {
   private octokit: ReturnType<typeof getOctokit>;
   private repoOwner: string;
   private repoName: string;
+  private logger: Logger;
 
 
-  constructor(token: string, repoOwner: string, repoName: string);
-  constructor(token: string, fullRepoName: string);
-  constructor(token: string, ...repoArgs: string[]) {
-    this.octokit = getOctokit(token);
+  /**
+   * The API URL defaults to the `GITHUB_API_URL` environment variable, or to `https://api.github.com`.
+   * The log goes to the workflow log unless a logger is given.
+   */
+  constructor(token: string, repoOwner: string, repoName: string, baseUrl?: string, logger?: Logger);
+  constructor(token: string, fullRepoName: string, baseUrl?: string, logger?: Logger);
+  constructor(token: string, ...args: Array<string | Logger | undefined>) {
+    const repoArgs = args.filter((arg): arg is string | undefined => typeof arg !== 'object');
+    this.logger = args.find((arg): arg is Logger => typeof arg === 'object') ?? actionsLogger;
+    const isFullRepoName = repoArgs[0].includes('/');
+    const [owner, repo] = isFullRepoName ? repoArgs[0].split('/') : repoArgs;
+    const baseUrl = isFullRepoName ? repoArgs[1] : repoArgs[2];
 
-    const [owner, repo] = repoArgs.length === 1 ? repoArgs[0].split('/') : repoArgs;
+    this.octokit = getOctokit(token, baseUrl ? { baseUrl } : {});
     this.repoOwner = owner;
     this.repoName = repo;
   }
@@ -39,19 +92,40 @@ export class GitHubClient {
   }
 
   /**
-   * Get a list of commits between two git references (branches, tags, SHAs).
+   * Get the tag names of all published releases, excluding drafts and pre-releases.
+   */
+  async getReleaseTagNames(): Promise<Array<string>> {
+    this.logger.debug('Getting list of releases');
+    const releases = await this.octokit.paginate(this.octokit.rest.repos.listReleases, {
+      owner: this.repoOwner,
+      repo: this.repoName,
+      per_page: 100,
+    });
+    this.logger.debug(`Total releases fetched: ${releases.length}`);
+    return releases
+      .filter(release => !release.draft && !release.prerelease)
+      .map(release => release.tag_name);
+  }
+
+  /**
+   * Get a list of commits between two git references (branches, tags, SHAs), i.e. the commits reachable
+   * from `rangeEnd` but not from `rangeBegin`, ordered from the oldest to the newest.
+   * The comparison of both references is paged, 100 commits per request, so every commit is fetched exactly once,
+   * including commits of merged branches older than the merge base.
+   * If `includeFiles` is set, the list of files changed by each commit is fetched as well,
+   * which requires an additional request per commit.
    */
-  async getListOfCommitsBetween(rangeBegin: string, rangeEnd: string): Promise<Array<Commit>> {
-    core.debug(`Getting list of commits between ${rangeBegin} and ${rangeEnd}`);
+  async getListOfCommitsBetween(rangeBegin: string, rangeEnd: string, includeFiles: boolean = false): Promise<Array<Commit>> {
+    this.logger.debug(`Getting list of commits between ${rangeBegin} and ${rangeEnd}`);
     const listOfCommits: Array<Commit> = [];
 
     const per_page = 100;
-    let total_commits = -1;
-    let page = 0;
+    let page = 1;
 
     while(true) {
+      this.logger.debug(`Fetching compared commits page ${page}`);
+      let comparison: { total_commits: number, commits: Array<{ sha: string, commit: { message: string } }> };
       try {
-        core.debug(`Fetching commits page ${page}`);
         const response = await this.octokit.rest.repos.compareCommitsWithBasehead({
           owner: this.repoOwner,
           repo: this.repoName,
@@ -59,38 +133,306 @@ export class GitHubClient {
           page,
           per_page
         });
-        core.debug(`Fetched ${response.data.commits.length} commits`);
-
-        total_commits = response.data.total_commits;
-        core.debug(`Total commits to fetch: ${total_commits}`);
-
-        for (const commit of response.data.commits) {
-          core.debug(`Found commit: ${commit.sha} with message: ${commit.commit.message}`);
-          listOfCommits.push({
-            sha: commit.sha,
-            message: commit.commit.message
-          });
-        }
-
+        comparison = response.data;
       } catch (error) {
-        core.debug(`Error fetching commits: ${error.message}`);
+        this.logger.debug(`Error comparing commits: ${error.message}`);
         if (error.status === 404) {
-          break; // No more commits found
+          return []; // No commits found
         }
         throw error; // Rethrow other errors
       }
 
-      if (listOfCommits.length >= total_commits) {
+      for (const commit of comparison.commits) {
+        listOfCommits.push({
+          sha: commit.sha,
+          message: commit.commit.message
+        });
+      }
+
+      if (comparison.commits.length < per_page || listOfCommits.length >= comparison.total_commits) {
         break;
       }
 
       page++;
     }
 
-    core.debug(`Total commits fetched: ${listOfCommits.length}`);
+    this.logger.debug(`Total commits fetched: ${listOfCommits.length}`);
+
+    if (includeFiles) {
+      for (const commit of listOfCommits) {
+        commit.files = await this.getListOfFilesChangedBy(commit.sha);
+      }
+    }
+
     return listOfCommits;
   }
 
+  /**
+   * Get a list of files changed by a commit.
+   */
+  async getListOfFilesChangedBy(sha: string): Promise<Array<string>> {
+    const listOfFiles: Array<string> = [];
+
+    const per_page = 100;
+    let page = 1;
+
+    while(true) {
+      const response = await this.octokit.rest.repos.getCommit({
+        owner: this.repoOwner,
+        repo: this.repoName,
+        ref: sha,
+        page,
+        per_page
+      });
+      const files = response.data.files ?? [];
+      listOfFiles.push(...files.map(file => file.filename));
+
+      if (files.length < per_page) {
+        break;
+      }
+
+      page++;
+    }
+
+    this.logger.debug(`Commit ${sha} changed ${listOfFiles.length} files`);
+    return listOfFiles;
+  }
+
+  /**
+   * Get the names of all tags in the repository.
+   */
+  async getTagNames(): Promise<Array<string>> {
+    return (await this.getTags()).map(tag => tag.name);
+  }
+
+  /**
+   * Get all tags in the repository together with the SHAs of the commits they point to.
+   */
+  async getTags(): Promise<Array<Tag>> {
+    this.logger.debug('Getting list of tags');
+    const tags = await this.octokit.paginate(this.octokit.rest.repos.listTags, {
+      owner: this.repoOwner,
+      repo: this.repoName,
+      per_page: 100,
+    });
+    this.logger.debug(`Total tags fetched: ${tags.length}`);
+    return tags.map(tag => ({
+      name: tag.name,
+      sha: tag.commit.sha,
+    }));
+  }
+
+  /**
+   * Get the name of the tag with the highest stable semver version, or null if there is none.
+   * Tags which are not valid semver versions and pre-release versions are skipped.
+   */
+  async getLatestVersionTag(): Promise<string | null> {
+    const versionTags = (await this.getTagNames())
+      .filter(tag => semver.valid(tag) && !semver.prerelease(tag));
+    this.logger.debug(`Found ${versionTags.length} stable semver tags`);
+    versionTags.sort((a, b) => semver.rcompare(a, b));
+    return versionTags[0] ?? null;
+  }
+
+  /**
+   * Get the SHA of the commit a git reference (branch, tag, SHA) points to.
+   */
+  async getCommitSha(ref: string): Promise<string> {
+    const response = await this.octokit.rest.repos.getCommit({
+      owner: this.repoOwner,
+      repo: this.repoName,
+      ref,
+      per_page: 1,
+    });
+    return response.data.sha;
+  }
+
+  /**
+   * Get the SHA of the commit a tag points to, or null if the tag does not exist.
+   * Annotated tags are resolved to the commit they point to.
+   */
+  async getTagSha(tagName: string): Promise<string | null> {
+    try {
+      const response = await this.octokit.rest.git.getRef({
+        owner: this.repoOwner,
+        repo: this.repoName,
+        ref: `tags/${tagName}`,
+      });
+      if (response.data.object.type !== 'tag') {
+        return response.data.object.sha;
+      }
+
+      const tagResponse = await this.octokit.rest.git.getTag({
+        owner: this.repoOwner,
+        repo: this.repoName,
+        tag_sha: response.data.object.sha,
+      });
+      return tagResponse.data.object.sha;
+    } catch (error) {
+      if (error.status === 404) {
+        return null; // Tag not found
+      }
+      throw error; // Rethrow other errors
+    }
+  }
+
+  /**
+   * Create a lightweight tag pointing to a commit.
+   */
+  async createTag(tagName: string, sha: string): Promise<void> {
+    this.logger.debug(`Creating tag ${tagName} at ${sha}`);
+    await this.octokit.rest.git.createRef({
+      owner: this.repoOwner,
+      repo: this.repoName,
+      ref: `refs/tags/${tagName}`,
+      sha,
+    });
+  }
+
+  /**
+   * Create a lightweight tag pointing to a commit, or force-update it if it already exists.
+   */
+  async createOrUpdateTag(tagName: string, sha: string): Promise<void> {
+    try {
+      this.logger.debug(`Updating tag ${tagName} to ${sha}`);
+      await this.octokit.rest.git.updateRef({
+        owner: this.repoOwner,
+        repo: this.repoName,
+        ref: `tags/${tagName}`,
+        sha,
+        force: true,
+      });
+    } catch (error) {
+      if (error.status === 422) {
+        return this.createTag(tagName, sha); // Tag does not exist yet
+      }
+      throw error; // Rethrow other errors
+    }
+  }
+
+  /**
+   * Get the release of a tag, including drafts, or null if there is none.
+   */
+  async getReleaseByTagName(tagName: string): Promise<Release | null> {
+    this.logger.debug(`Getting release of tag ${tagName}`);
+    const releases = await this.octokit.paginate(this.octokit.rest.repos.listReleases, {
+      owner: this.repoOwner,
+      repo: this.repoName,
+      per_page: 100,
+    });
+    const release = releases.find(release => release.tag_name === tagName);
+    return release ? { id: release.id, tagName: release.tag_name, url: release.html_url } : null;
+  }
+
+  /**
+   * Create a release of an existing tag.
+   */
+  async createRelease(tagName: string, body: string, draft: boolean, prerelease: boolean): Promise<Release> {
+    this.logger.debug(`Creating release of tag ${tagName}`);
+    const response = await this.octokit.rest.repos.createRelease({
+      owner: this.repoOwner,
+      repo: this.repoName,
+      tag_name: tagName,
+      name: tagName,
+      body,
+      draft,
+      prerelease,
+    });
+    return { id: response.data.id, tagName: response.data.tag_name, url: response.data.html_url };
+  }
+
+  /**
+   * Get the commits of a pull request, ordered from the oldest to the newest.
+   */
+  async getPullRequestCommits(pullRequestNumber: number): Promise<Array<Commit>> {
+    this.logger.debug(`Getting list of commits of pull request #${pullRequestNumber}`);
+    const commits = await this.octokit.paginate(this.octokit.rest.pulls.listCommits, {
+      owner: this.repoOwner,
+      repo: this.repoName,
+      pull_number: pullRequestNumber,
+      per_page: 100,
+    });
+    this.logger.debug(`Total commits fetched: ${commits.length}`);
+    return commits.map(commit => ({
+      sha: commit.sha,
+      message: commit.commit.message,
+    }));
+  }
+
+  /**
+   * Get the merged pull requests each commit belongs to, either as one of their commits or as their merge commit.
+   * The pull requests of 100 commits are queried with a single GraphQL request.
+   */
+  async getMergedPullRequestsOfCommits(shas: Array<string>): Promise<Map<string, Array<PullRequest>>> {
+    const pullRequestsOfCommits = new Map<string, Array<PullRequest>>();
+
+    for (let offset = 0; offset < shas.length; offset += PULL_REQUESTS_QUERY_COMMITS) {
+      const batch = shas.slice(offset, offset + PULL_REQUESTS_QUERY_COMMITS);
+      this.logger.debug(`Getting pull requests of commits ${offset + 1} to ${offset + batch.length} of ${shas.length}`);
+      const response = await this.octokit.graphql<PullRequestsOfCommitsQueryResponse>(getPullRequestsOfCommitsQuery(batch.length), {
+        owner: this.repoOwner,
+        repo: this.repoName,
+        ...Object.fromEntries(batch.map((sha, index) => [`sha${index}`, sha])),
+      });
+
+      batch.forEach((sha, index) => {
+        const pullRequests = response.repository[`c${index}`]?.associatedPullRequests?.nodes ?? [];
+        pullRequestsOfCommits.set(sha, pullRequests
+          .filter(pullRequest => pullRequest.merged)
+          .map(pullRequest => ({
+            number: pullRequest.number,
+            title: pullRequest.title,
+            labels: pullRequest.labels.nodes.map(label => label.name),
+            mergeCommitSha: pullRequest.mergeCommit?.oid ?? null,
+          })));
+      });
+    }
+
+    return pullRequestsOfCommits;
+  }
+
+  /**
+   * Get all comments of an issue or pull request.
+   */
+  async getIssueComments(issueNumber: number): Promise<Array<IssueComment>> {
+    this.logger.debug(`Getting comments of issue #${issueNumber}`);
+    const comments = await this.octokit.paginate(this.octokit.rest.issues.listComments, {
+      owner: this.repoOwner,
+      repo: this.repoName,
+      issue_number: issueNumber,
+      per_page: 100,
+    });
+    return comments.map(comment => ({ id: comment.id, body: comment.body ?? '', url: comment.html_url }));
+  }
+
+  /**
+   * Create a comment on an issue or pull request.
+   */
+  async createIssueComment(issueNumber: number, body: string): Promise<IssueComment> {
+    this.logger.debug(`Creating comment on issue #${issueNumber}`);
+    const response = await this.octokit.rest.issues.createComment({
+      owner: this.repoOwner,
+      repo: this.repoName,
+      issue_number: issueNumber,
+      body,
+    });
+    return { id: response.data.id, body: response.data.body ?? '', url: response.data.html_url };
+  }
+
+  /**
+   * Replace the body of an existing comment on an issue or pull request.
+   */
+  async updateIssueComment(commentId: number, body: string): Promise<IssueComment> {
+    this.logger.debug(`Updating comment ${commentId}`);
+    const response = await this.octokit.rest.issues.updateComment({
+      owner: this.repoOwner,
+      repo: this.repoName,
+      comment_id: commentId,
+      body,
+    });
+    return { id: response.data.id, body: response.data.body ?? '', url: response.data.html_url };
+  }
+
   /**
    * Get the default branch name of the repository.
    */
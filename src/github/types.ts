@@ -1,4 +1,37 @@
 export interface Commit {
   sha: string;
   message: string;
+  /** Paths of files changed by the commit, only present if requested */
+  files?: Array<string>;
+  /** Pull request the commit was merged with, only present if resolved */
+  pullRequest?: PullRequest;
+}
+
+export interface Tag {
+  name: string;
+  /** SHA of the commit the tag points to */
+  sha: string;
+}
+
+export interface Release {
+  id: number;
+  tagName: string;
+  /** URL of the release page */
+  url: string;
+}
+
+export interface IssueComment {
+  id: number;
+  body: string;
+  /** URL of the comment */
+  url: string;
+}
+
+export interface PullRequest {
+  number: number;
+  title: string;
+  /** Names of the labels of the pull request */
+  labels: Array<string>;
+  /** SHA of the merge or squash commit created when merging the pull request */
+  mergeCommitSha: string | null;
 }
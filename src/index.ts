@@ -15,5 +15,30 @@ main(
   targetBranch,
   notConventionalCommitsReaction,
   initReleaseVersion,
-  preReleaseVersionGlue
-);
+  preReleaseVersionGlue,
+  {
+    bumpMapping: core.getInput('bump-mapping'),
+    skipReleaseWhenNotNeeded: core.getBooleanInput('skip-release-when-not-needed'),
+    initialDevelopmentMode: core.getBooleanInput('initial-development-mode'),
+    preReleaseMode: core.getInput('pre-release-mode'),
+    preReleaseIdentifier: core.getInput('pre-release-identifier'),
+    branches: core.getInput('branches'),
+    versionSource: core.getInput('version-source'),
+    tagPattern: core.getInput('tag-pattern'),
+    packageName: core.getInput('package-name'),
+    paths: core.getMultilineInput('paths'),
+    scopes: core.getMultilineInput('scopes'),
+    packages: core.getInput('packages'),
+    bumpDependents: core.getBooleanInput('bump-dependents'),
+    createRelease: core.getBooleanInput('create-release'),
+    releaseDraft: core.getBooleanInput('release-draft'),
+    updateMajorTag: core.getBooleanInput('update-major-tag'),
+    updateMinorTag: core.getBooleanInput('update-minor-tag'),
+    backend: core.getInput('backend'),
+    apiUrl: core.getInput('api-url'),
+    bumpFiles: core.getMultilineInput('bump-files'),
+    preReleaseTemplate: core.getInput('pre-release-template'),
+    mode: core.getInput('mode'),
+    resolvePullRequests: core.getBooleanInput('resolve-pull-requests'),
+  }
+).catch(error => core.setFailed(error.message));
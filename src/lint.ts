@@ -0,0 +1,156 @@
+import * as core from '@actions/core';
+import * as cc from '@conventional-commits/parser';
+
+import { GitHubClient } from './github';
+import { Commit, IssueComment } from "./github/types";
+import { IGNORE_MESSAGE_PATTERN } from './logic';
+import { LintReport, NotConventionalCommitsReaction, PackagesVersionResult, VersionResult } from './types';
+import { escapeHtml } from './utils';
+
+// Hidden marker identifying the comment of the action, so it is updated instead of posted again
+export const LINT_COMMENT_MARKER = '<!-- action-semver:lint -->';
+
+
+/**
+ * Get the error of the conventional-commits parser for a message, or null if the message is in conventional-commits format.
+ */
+export const getConventionalCommitsError = (message: string): string | null => {
+  try {
+    cc.toConventionalChangelogFormat(cc.parser(message));
+    return null;
+  } catch (error) {
+    return error.message;
+  }
+}
+
+
+/**
+ * Check the pull request title and the commit messages against the conventional-commits format,
+ * collecting all messages which are not in that format instead of stopping at the first one.
+ * Messages ignored by `IGNORE_MESSAGE_PATTERN`, e.g. merge commits, are not checked.
+ */
+export const lintPullRequest = (title: string, commits: Array<Commit>): LintReport => {
+  const report: LintReport = { checked: 0, issues: [] };
+
+  for (const { sha, message } of [{ sha: null, message: title }, ...commits]) {
+    if (IGNORE_MESSAGE_PATTERN.test(message)) {
+      core.debug(`Not linting ignored message: '${message}'`);
+      continue;
+    }
+
+    report.checked++;
+    const error = getConventionalCommitsError(message);
+    if (error !== null) {
+      report.issues.push({ sha, subject: message.split('\n')[0], error });
+    }
+  }
+
+  return report;
+}
+
+
+/**
+ * Format the report as a single message listing all messages which are not in conventional-commits format.
+ */
+export const formatLintReport = (report: LintReport): string => {
+  if (report.issues.length === 0) {
+    return `All ${report.checked} messages are in conventional-commits format.`;
+  }
+  return [
+    `${report.issues.length} of ${report.checked} messages are not in conventional-commits format:`,
+    ...report.issues.map(issue => `- ${issue.sha ? `Commit ${issue.sha.substring(0, 7)}` : 'Pull request title'}: '${issue.subject}' (${issue.error})`),
+  ].join('\n');
+}
+
+
+/**
+ * Report the lint result according to the reaction to messages not in conventional-commits format:
+ * fail the action or warn with one aggregated message, or only log it.
+ */
+export const reportLintResult = (report: LintReport, reaction: NotConventionalCommitsReaction): void => {
+  const message = formatLintReport(report);
+  if (report.issues.length === 0 || reaction === NotConventionalCommitsReaction.IGNORE) {
+    core.info(message);
+  } else if (reaction === NotConventionalCommitsReaction.ERROR) {
+    core.setFailed(message);
+  } else {
+    core.warning(message);
+  }
+}
+
+
+/**
+ * Render the predicted version as Markdown.
+ */
+const renderPrediction = (prediction: VersionResult | PackagesVersionResult | Error): string => {
+  if (prediction instanceof Error) {
+    return `The next version could not be predicted: ${escapeHtml(prediction.message)}`;
+  }
+
+  if ('packages' in prediction) {
+    const releasedPackages = Object.entries(prediction.packages).filter(([, packageVersion]) => packageVersion.releaseNeeded);
+    if (releasedPackages.length === 0) {
+      return 'Merging this pull request does not release any package.';
+    }
+    return [
+      'Merging this pull request releases:',
+      '',
+      '| Package | Current version | New version | Bump |',
+      '|---------|-----------------|-------------|------|',
+      ...releasedPackages.map(([name, packageVersion]) =>
+        `| ${name} | ${packageVersion.currentVersion || '-'} | <code>${packageVersion.newVersion}</code> | ${packageVersion.bumpType || 'none'} |`),
+    ].join('\n');
+  }
+
+  if (!prediction.releaseNeeded) {
+    return `Merging this pull request does not release a new version, the current version stays <code>${prediction.currentVersion}</code>.`;
+  }
+  const trigger = prediction.bumpDecision.trigger
+    ? `, triggered by <code>${prediction.bumpDecision.trigger.sha.substring(0, 7)}</code> ${escapeHtml(prediction.bumpDecision.trigger.subject)}`
+    : '';
+  return `Merging this pull request releases <code>${prediction.newVersion}</code> `
+    + `(${prediction.bumpDecision.bumpType ?? 'no'} bump from <code>${prediction.currentVersion || '-'}</code>${trigger}).`;
+}
+
+
+/**
+ * Render the pull request comment with the lint report and the version predicted for merging the pull request.
+ * @param prediction Predicted version, or the error why it could not be predicted
+ */
+export const renderLintComment = (report: LintReport, prediction: VersionResult | PackagesVersionResult | Error): string => {
+  const lines = [LINT_COMMENT_MARKER, '### Conventional Commits', ''];
+
+  if (report.issues.length === 0) {
+    lines.push(`✅ All ${report.checked} messages are in conventional-commits format.`);
+  } else {
+    lines.push(
+      `❌ ${report.issues.length} of ${report.checked} messages are not in conventional-commits format:`,
+      '',
+      '| Message | Subject | Problem |',
+      '|---------|---------|---------|',
+      ...report.issues.map(issue =>
+        `| ${issue.sha ? `<code>${issue.sha.substring(0, 7)}</code>` : 'Title'} | ${escapeHtml(issue.subject).replace(/\|/g, '\\|')} | ${escapeHtml(issue.error).replace(/\|/g, '\\|')} |`),
+    );
+  }
+
+  lines.push('', '### Predicted Version', '', renderPrediction(prediction), '');
+  return lines.join('\n');
+}
+
+
+/**
+ * Create the comment of the action on the pull request, or update it if it already exists.
+ */
+export const writeLintComment = async (githubClient: GitHubClient, pullRequestNumber: number, body: string): Promise<IssueComment> => {
+  const existingComment = (await githubClient.getIssueComments(pullRequestNumber))
+    .find(comment => comment.body.includes(LINT_COMMENT_MARKER));
+
+  if (existingComment) {
+    core.info(`Updating comment on pull request #${pullRequestNumber}: ${existingComment.url}`);
+    return await githubClient.updateIssueComment(existingComment.id, body);
+  }
+
+  const comment = await githubClient.createIssueComment(pullRequestNumber, body);
+  core.info(`Created comment on pull request #${pullRequestNumber}: ${comment.url}`);
+  return comment;
+}
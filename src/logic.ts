@@ -1,68 +1,476 @@
-import * as core from '@actions/core';
-import { context } from '@actions/github';
 import * as semver from 'semver';
 import * as cc from '@conventional-commits/parser';
 
-import { Commit } from "./github/types";
-import { NotConventionalCommitsReaction } from "./types";
+import { Commit, PullRequest } from "./github/types";
+import {
+  BranchConfig,
+  BumpDecision,
+  BumpLevel,
+  BumpMapping,
+  CommitBumpDecision,
+  Logger,
+  NotConventionalCommitsReaction,
+  PreReleaseIdentifierMapping,
+  PreReleaseTemplateValues,
+  getBumpLevelEnumFromString
+} from "./types";
+import { getVersionFromTag } from "./tags";
+import { actionsLogger, matchesGlobPattern, matchesPathPattern } from "./utils";
 
-const IGNORE_MESSAGE_PATTERN = /(^Merge )/;
+export const IGNORE_MESSAGE_PATTERN = /(^Merge )/;
 
-const BREAKING_CHANGE = 'BREAKING CHANGE';
-const MINOR_LIST = ['feat', 'feature'];
+const BREAKING_CHANGE_TOKENS = ['BREAKING CHANGE', 'BREAKING-CHANGE'];
+
+const WILDCARD_TYPE = '*';
+
+const BRANCH_REF_PREFIX = 'refs/heads/';
+
+const BUMP_LABEL_PREFIX = 'semver:';
+
+export const DEFAULT_PRE_RELEASE_IDENTIFIER = 'rc';
+
+const PRE_RELEASE_TEMPLATE_PLACEHOLDERS = ['branch', 'run_number', 'pr_number', 'sha', 'sha7', 'timestamp'];
+
+export const DEFAULT_BUMP_MAPPING: BumpMapping = {
+  feat: BumpLevel.MINOR,
+  feature: BumpLevel.MINOR,
+  [WILDCARD_TYPE]: BumpLevel.PATCH,
+};
+
+const BUMP_LEVEL_ORDER = [BumpLevel.NONE, BumpLevel.PATCH, BumpLevel.MINOR, BumpLevel.MAJOR];
 
 
 /**
  * Check if a note indicates a breaking change.
  */
 export const noteHasBreakingChange = (note: { title: string; text: string }): boolean => {
-  return note.title === BREAKING_CHANGE;
+  return BREAKING_CHANGE_TOKENS.includes(note.title);
+}
+
+
+/**
+ * Check if a parsed commit message indicates a breaking change, either with the `!` marker
+ * in the header or with a `BREAKING CHANGE` / `BREAKING-CHANGE` footer token.
+ */
+export const messageHasBreakingChange = (message: cc.Message): boolean => {
+  for (const node of message.children) {
+    if (node.type === 'summary') {
+      if ((node.children as Array<{ type: string }>).some(child => child.type === 'breaking-change')) {
+        return true;
+      }
+    } else if (node.type === 'footer') {
+      for (const child of node.children) {
+        if (child.type === 'token' && child.children.some(tokenChild => tokenChild.type === 'breaking-change')) {
+          return true;
+        }
+      }
+    }
+  }
+  return false;
 }
 
 
 /**
- * Determine the bump type (major, minor, patch) from a list of commits.
+ * Get the bump level for a commit type from the mapping.
+ * Types not listed in the mapping fall back to the `*` entry, or to patch if there is none.
+ */
+export const getBumpLevelForType = (type: string, bumpMapping: BumpMapping): BumpLevel => {
+  return bumpMapping[type.toLowerCase()] ?? bumpMapping[WILDCARD_TYPE] ?? BumpLevel.PATCH;
+}
+
+
+/**
+ * Return the higher of two bump levels.
+ */
+export const maxBumpLevel = (a: BumpLevel, b: BumpLevel): BumpLevel => {
+  return BUMP_LEVEL_ORDER.indexOf(a) >= BUMP_LEVEL_ORDER.indexOf(b) ? a : b;
+}
+
+
+/**
+ * Filter commits to those changing at least one file matching the path patterns.
+ * Patterns starting with `!` exclude matching files. Commits without the list of changed files are kept.
+ */
+export const filterCommitsByPaths = (commits: Array<Commit>, paths: Array<string>, logger: Logger = actionsLogger): Array<Commit> => {
+  const includePatterns = paths.filter(path => !path.startsWith('!'));
+  const excludePatterns = paths.filter(path => path.startsWith('!')).map(path => path.substring(1));
+
+  const fileMatches = (file: string): boolean => {
+    return (includePatterns.length === 0 || includePatterns.some(pattern => matchesPathPattern(file, pattern)))
+      && !excludePatterns.some(pattern => matchesPathPattern(file, pattern));
+  };
+
+  return commits.filter(commit => {
+    if (!commit.files) {
+      logger.debug(`Keeping commit ${commit.sha} without list of changed files`);
+      return true;
+    }
+    if (commit.files.some(fileMatches)) {
+      return true;
+    }
+    logger.debug(`Ignoring commit ${commit.sha} not changing any file matching the paths`);
+    return false;
+  });
+};
+
+
+/**
+ * Get the lowercased scopes of a commit message, e.g. `['api', 'web']` for `fix(api,web): ...`.
+ * Returns an empty list for messages without scope and null for messages not in conventional-commits format.
+ */
+export const getScopesOfMessage = (message: string): Array<string> | null => {
+  try {
+    const { scope } = cc.toConventionalChangelogFormat(cc.parser(message));
+    return (scope ?? '').split(',').map(item => item.trim().toLowerCase()).filter(item => item !== '');
+  } catch (error) {
+    return null;
+  }
+}
+
+
+/**
+ * Check if a scope matches any of the scope globs, case insensitively.
+ */
+export const matchesAnyScopePattern = (scope: string, patterns: Array<string>): boolean => {
+  return patterns.some(pattern => matchesGlobPattern(scope, pattern.toLowerCase()));
+}
+
+
+/**
+ * Filter commits to those with a scope matching the scope globs.
+ * Patterns starting with `!` exclude matching scopes, and commits with only excluded scopes are dropped.
+ * Commits without scope are kept only if there are no include patterns. Ignored commits and commits
+ * not in conventional-commits format are kept, so they are handled by `getBumpTypeFromCommits`.
+ */
+export const filterCommitsByScopes = (commits: Array<Commit>, scopes: Array<string>, logger: Logger = actionsLogger): Array<Commit> => {
+  const includePatterns = scopes.filter(scope => !scope.startsWith('!'));
+  const excludePatterns = scopes.filter(scope => scope.startsWith('!')).map(scope => scope.substring(1));
+
+  return commits.filter(commit => {
+    const commitScopes = IGNORE_MESSAGE_PATTERN.test(commit.message) ? null : getScopesOfMessage(commit.message);
+    if (commitScopes === null) {
+      return true;
+    }
+
+    const remainingScopes = commitScopes.filter(scope => !matchesAnyScopePattern(scope, excludePatterns));
+    if (commitScopes.length > 0 && remainingScopes.length === 0) {
+      logger.debug(`Ignoring commit ${commit.sha} with excluded scope`);
+      return false;
+    }
+    if (includePatterns.length > 0 && !remainingScopes.some(scope => matchesAnyScopePattern(scope, includePatterns))) {
+      logger.debug(`Ignoring commit ${commit.sha} without scope matching the scopes`);
+      return false;
+    }
+    return true;
+  });
+};
+
+
+/**
+ * Replace the commits merged with a pull request by a single commit with the pull request title as message,
+ * as if the pull request had been squash merged. The commit takes the place of the newest commit of the pull request
+ * and the SHA of its merge commit, if that is one of the commits, e.g. the `Merge pull request #N` commit.
+ * @param pullRequests Pull request each commit was merged with by commit SHA, commits without one are kept as they are
+ */
+export const squashCommitsOfPullRequests = (
+  commits: Array<Commit>,
+  pullRequests: Map<string, PullRequest>,
+  logger: Logger = actionsLogger
+): Array<Commit> => {
+  const commitsOfPullRequests = new Map<number, Array<Commit>>();
+  for (const commit of commits) {
+    const pullRequest = pullRequests.get(commit.sha);
+    if (pullRequest) {
+      commitsOfPullRequests.set(pullRequest.number, [...commitsOfPullRequests.get(pullRequest.number) ?? [], commit]);
+    }
+  }
+
+  return commits.flatMap(commit => {
+    const pullRequest = pullRequests.get(commit.sha);
+    if (!pullRequest) {
+      return [commit];
+    }
+    const pullRequestCommits = commitsOfPullRequests.get(pullRequest.number);
+    if (pullRequestCommits[pullRequestCommits.length - 1] !== commit) {
+      return [];
+    }
+
+    const squashedCommit: Commit = {
+      sha: pullRequestCommits.some(({ sha }) => sha === pullRequest.mergeCommitSha) ? pullRequest.mergeCommitSha : commit.sha,
+      message: pullRequest.title,
+      pullRequest,
+    };
+    if (pullRequestCommits.some(({ files }) => files)) {
+      squashedCommit.files = [...new Set(pullRequestCommits.flatMap(({ files }) => files ?? []))];
+    }
+    logger.debug(`Squashing ${pullRequestCommits.length} commits of pull request #${pullRequest.number}: '${pullRequest.title}'`);
+    return [squashedCommit];
+  });
+};
+
+
+/**
+ * Get the bump level requested by `semver:<level>` labels, e.g. `semver:major`, or null if there is no such label.
+ * The highest level wins if there are several of them.
+ */
+export const getBumpLevelFromLabels = (labels: Array<string>, logger: Logger = actionsLogger): BumpLevel | null => {
+  let bumpLevel: BumpLevel | null = null;
+
+  for (const label of labels) {
+    if (!label.toLowerCase().startsWith(BUMP_LABEL_PREFIX)) {
+      continue;
+    }
+    try {
+      const labelBumpLevel = getBumpLevelEnumFromString(label.substring(BUMP_LABEL_PREFIX.length).trim());
+      bumpLevel = bumpLevel === null ? labelBumpLevel : maxBumpLevel(bumpLevel, labelBumpLevel);
+    } catch (error) {
+      logger.warning(`Ignoring label ${label}: ${error.message}`);
+    }
+  }
+
+  return bumpLevel;
+};
+
+
+/**
+ * Determine the bump type (major, minor, patch) from a list of commits, together with the decision of each commit
+ * and the commit which triggered the bump. The bump type is null when none of the commits requires a release,
+ * i.e. all of them are ignored or of types mapped to `none`. Commits not in conventional-commits format count as patch,
+ * unless the reaction to them is an error, in which case an error is thrown.
+ * A `semver:<level>` label of the pull request of a commit overrides the bump level of its message, unless it is breaking.
  */
 export const getBumpTypeFromCommits = (
   commits: Array<Commit>,
-  notConventionalCommitsReaction: NotConventionalCommitsReaction = NotConventionalCommitsReaction.WARN
-): semver.ReleaseType => {
-  let bumpMajor = false;
-  let bumpMinor = false;
+  notConventionalCommitsReaction: NotConventionalCommitsReaction = NotConventionalCommitsReaction.WARN,
+  bumpMapping: BumpMapping = DEFAULT_BUMP_MAPPING,
+  logger: Logger = actionsLogger
+): BumpDecision => {
+  const decision: BumpDecision = { bumpType: null, considered: [], ignored: [], nonConventional: [], trigger: null };
+  let bumpLevel = BumpLevel.NONE;
 
   for (const commit of commits) {
+    const commitDecision: CommitBumpDecision = {
+      sha: commit.sha,
+      subject: commit.message.split('\n')[0],
+      type: null,
+      breaking: false,
+      bumpLevel: BumpLevel.NONE,
+    };
+
     if (IGNORE_MESSAGE_PATTERN.test(commit.message)) {
-      core.debug(`Ignoring commit message: '${commit.message}'`);
+      logger.debug(`Ignoring commit message: '${commit.message}'`);
+      decision.ignored.push(commitDecision);
       continue;
     }
 
+    const labelBumpLevel = commit.pullRequest ? getBumpLevelFromLabels(commit.pullRequest.labels, logger) : null;
+
     try {
-      const commitMessage = cc.toConventionalChangelogFormat(cc.parser(commit.message));
-      const commitMessageType = commitMessage.type.toLowerCase();
+      const parsedMessage = cc.parser(commit.message);
+      const commitMessage = cc.toConventionalChangelogFormat(parsedMessage);
 
-      if (commitMessage.notes.some(noteHasBreakingChange)) {
-        bumpMajor = true;
-      } else if (MINOR_LIST.includes(commitMessageType)) {
-        bumpMinor = true;
-      }
+      commitDecision.type = commitMessage.type;
+      commitDecision.breaking = messageHasBreakingChange(parsedMessage) || commitMessage.notes.some(noteHasBreakingChange);
+      // A label cannot downgrade a breaking change, which always requires a major release
+      commitDecision.bumpLevel = commitDecision.breaking
+        ? BumpLevel.MAJOR
+        : labelBumpLevel ?? getBumpLevelForType(commitMessage.type, bumpMapping);
+      decision.considered.push(commitDecision);
 
     } catch (error) {
-      if (notConventionalCommitsReaction === NotConventionalCommitsReaction.ERROR) {
-        core.setFailed(`Commit message not in conventional-commits format: '${commit.message}'`);
-        return;
-      } else if (notConventionalCommitsReaction === NotConventionalCommitsReaction.WARN) {
-        core.warning(`Commit message not in conventional-commits format: '${commit.message}'`);
+      if (labelBumpLevel !== null) {
+        // The label decides the bump of pull requests whose title is not in conventional-commits format
+        commitDecision.bumpLevel = labelBumpLevel;
+        decision.considered.push(commitDecision);
+      } else {
+        if (notConventionalCommitsReaction === NotConventionalCommitsReaction.ERROR) {
+          throw new Error(`Commit message not in conventional-commits format: '${commit.message}'`);
+        } else if (notConventionalCommitsReaction === NotConventionalCommitsReaction.WARN) {
+          logger.warning(`Commit message not in conventional-commits format: '${commit.message}'`);
+        }
+        // If IGNORE, do nothing
+
+        // Changes not described in conventional-commits format are still released as a patch
+        commitDecision.bumpLevel = BumpLevel.PATCH;
+        decision.nonConventional.push(commitDecision);
       }
-      // If IGNORE, do nothing
+    }
+
+    if (maxBumpLevel(bumpLevel, commitDecision.bumpLevel) !== bumpLevel) {
+      bumpLevel = commitDecision.bumpLevel;
+      decision.trigger = commitDecision;
+    }
+  }
+
+  decision.bumpType = bumpLevel === BumpLevel.NONE ? null : bumpLevel as semver.ReleaseType;
+  return decision;
+};
+
+/**
+ * Adjust the bump type for initial development (0.y.z) versions, where breaking changes
+ * bump the minor version and features bump the patch version. Versions 1.0.0 and higher are left intact.
+ */
+export const getInitialDevelopmentBumpType = (bumpType: semver.ReleaseType, currentVersion: string): semver.ReleaseType => {
+  if (semver.major(currentVersion) !== 0) {
+    return bumpType;
+  }
+
+  switch (bumpType) {
+    case 'major':
+      return 'minor';
+    case 'minor':
+      return 'patch';
+    default:
+      return bumpType;
+  }
+};
+
+/**
+ * Suffix the version with a pre-release identifier based on the commit SHA.
+ */
+export const suffixWithPreRelease = (version: string, preReleaseGlue: string, sha: string): string => {
+  return `${version}${preReleaseGlue}${sha.substring(0, 7)}`;
+};
+
+/**
+ * Validate a pre-release template, e.g. `{branch}.{run_number}.{sha7}` or `+build.{timestamp}`.
+ * Throws an error for unknown placeholders.
+ */
+export const validatePreReleaseTemplate = (template: string): void => {
+  for (const [placeholder, name] of template.matchAll(/\{([^{}]*)\}/g)) {
+    if (!PRE_RELEASE_TEMPLATE_PLACEHOLDERS.includes(name)) {
+      throw new Error(`Pre-release template (${template}) contains unknown placeholder ${placeholder}, known are {${PRE_RELEASE_TEMPLATE_PLACEHOLDERS.join('}, {')}}`);
+    }
+  }
+};
+
+/**
+ * Normalize a value to a semver identifier, replacing runs of invalid characters with `-`,
+ * e.g. `feature-ABC-123` from `feature/ABC_123`.
+ */
+export const sanitizeIdentifier = (value: string): string => {
+  return value.replace(/[^0-9A-Za-z-]+/g, '-').replace(/^-+|-+$/g, '');
+};
+
+/**
+ * Render a pre-release template to a version suffix, e.g. `-feature-ABC-123.42.abc1234` for `{branch}.{run_number}.{sha7}`.
+ * The part before `+` becomes the pre-release identifiers and the part after it the build metadata. Placeholder values
+ * are sanitized, empty identifiers (e.g. of `{pr_number}` outside of pull requests) are dropped and leading zeros
+ * of numeric pre-release identifiers are removed, so the suffix is always valid semver.
+ * Throws an error if the pre-release part of the template renders to no identifiers.
+ */
+export const renderPreReleaseTemplate = (template: string, values: PreReleaseTemplateValues): string => {
+  validatePreReleaseTemplate(template);
+
+  const placeholderValues: Record<string, string> = {
+    branch: sanitizeIdentifier(values.branch),
+    run_number: values.runNumber?.toString() ?? '',
+    pr_number: values.pullRequestNumber?.toString() ?? '',
+    sha: values.sha,
+    sha7: values.sha.substring(0, 7),
+    // UTC date and time as YYYYMMDDHHmmss
+    timestamp: values.timestamp.toISOString().replace(/\D/g, '').substring(0, 14),
+  };
+  const toIdentifiers = (part: string): Array<string> => part
+    .replace(/\{(\w+)\}/g, (_placeholder, name) => placeholderValues[name])
+    .split('.')
+    .map(sanitizeIdentifier)
+    .filter(identifier => identifier !== '');
+
+  const [preReleasePart, ...buildParts] = template.replace(/^-/, '').split('+');
+  const preReleaseIdentifiers = toIdentifiers(preReleasePart).map(identifier => identifier.replace(/^0+(?=\d+$)/, ''));
+  const buildIdentifiers = toIdentifiers(buildParts.join('.'));
+
+  if (preReleasePart !== '' && preReleaseIdentifiers.length === 0) {
+    throw new Error(`Pre-release template (${template}) renders to no pre-release identifiers`);
+  }
+
+  return (preReleaseIdentifiers.length > 0 ? `-${preReleaseIdentifiers.join('.')}` : '')
+    + (buildIdentifiers.length > 0 ? `+${buildIdentifiers.join('.')}` : '');
+};
+
+/**
+ * Get the branch name from a branch ref, e.g. `main` from `refs/heads/main`.
+ */
+export const getBranchNameFromRef = (branchRef: string): string => {
+  return branchRef.startsWith(BRANCH_REF_PREFIX) ? branchRef.substring(BRANCH_REF_PREFIX.length) : branchRef;
+};
+
+/**
+ * Get the configuration of the first branch pattern matching the branch, or null if none matches.
+ */
+export const getBranchConfigForRef = (branchRef: string, branchConfigs: Array<BranchConfig>): BranchConfig | null => {
+  const branchName = getBranchNameFromRef(branchRef);
+  return branchConfigs.find(branchConfig => matchesGlobPattern(branchName, branchConfig.pattern)) ?? null;
+};
+
+/**
+ * Check if the version is within the release line, e.g. `1.4.2` is within `1.x` but not within `1.3.x`.
+ */
+export const isVersionWithinLine = (version: string, line: string): boolean => {
+  return semver.satisfies(version, line, { includePrerelease: true });
+};
+
+/**
+ * Get the tag with the highest stable version within the release line, or null if there is none.
+ * Tags not matching the tag pattern are skipped, see `getVersionFromTag`.
+ */
+export const getHighestVersionTagWithinLine = (
+  tags: Array<string>,
+  line: string,
+  tagPattern: string = '',
+  packageName: string = ''
+): string | null => {
+  let highestTag: string | null = null;
+  let highestVersion: string | null = null;
+  for (const tag of tags) {
+    const version = getVersionFromTag(tag, tagPattern, packageName);
+    if (!version || semver.prerelease(version) || !semver.satisfies(version, line)) {
+      continue;
+    }
+    if (!highestVersion || semver.gt(version, highestVersion)) {
+      highestTag = tag;
+      highestVersion = version;
     }
   }
+  return highestTag;
+};
 
-  return bumpMajor ? 'major' : bumpMinor ? 'minor' : 'patch';
+/**
+ * Get the pre-release identifier for a branch from the mapping.
+ * Branch patterns are checked in order of appearance, the first matching one wins.
+ */
+export const getPreReleaseIdentifierForBranch = (
+  branchRef: string,
+  preReleaseIdentifierMapping: PreReleaseIdentifierMapping
+): string => {
+  const branchName = getBranchNameFromRef(branchRef);
+  for (const [branchPattern, identifier] of Object.entries(preReleaseIdentifierMapping)) {
+    if (matchesGlobPattern(branchName, branchPattern)) {
+      return identifier;
+    }
+  }
+  return DEFAULT_PRE_RELEASE_IDENTIFIER;
 };
 
 /**
- * Suffix the version with a pre-release identifier based on the current commit SHA.
+ * Suffix the version with a pre-release identifier and counter, e.g. `1.3.0-rc.2`.
+ * The counter is one higher than the highest counter found among existing tags for the same version and identifier.
  */
-export const suffixWithPreRelease = (version: string, preReleaseGlue: string): string => {
-  return `${version}${preReleaseGlue}${context.sha.substring(0, 7)}`;
+export const suffixWithPreReleaseCounter = (version: string, identifier: string, existingTags: Array<string>): string => {
+  let highestCounter = 0;
+
+  for (const tag of existingTags) {
+    const tagVersion = semver.parse(tag);
+    if (!tagVersion || `${tagVersion.major}.${tagVersion.minor}.${tagVersion.patch}` !== version) {
+      continue;
+    }
+
+    const [tagIdentifier, tagCounter] = tagVersion.prerelease;
+    if (tagVersion.prerelease.length === 2 && tagIdentifier === identifier && typeof tagCounter === 'number') {
+      highestCounter = Math.max(highestCounter, tagCounter);
+    }
+  }
+
+  return `${version}-${identifier}.${highestCounter + 1}`;
 };
@@ -1,43 +1,251 @@
 import * as core from '@actions/core';
+import { context } from '@actions/github';
 import * as semver from 'semver';
 import * as cc from '@conventional-commits/parser';
 
+import { generateChangelog } from './changelog';
+import { bumpVersionInFiles } from './files';
+import { renderVersionFormats } from './formats';
+import { lintPullRequest, renderLintComment, reportLintResult, writeLintComment } from './lint';
+import { LocalGitClient } from './git';
+import { GiteaClient } from './gitea';
 import { GitHubClient } from './github';
-import { Commit } from "./github/types";
-import { getBumpTypeFromCommits, suffixWithPreRelease } from './logic';
-import { getNotConventionalCommitsReactionEnumFromString } from './types';
+import { getPackageTagPattern, getPackageVersions } from './packages';
+import { createTagAndRelease, moveFloatingTags } from './release';
+import { writeBumpDecisionSummary } from './summary';
+import { getVersionFromTag, getVersionsFromTags, renderFloatingTags, renderTag, validateTagPattern } from './tags';
+import { Commit, PullRequest } from "./github/types";
+import {
+  DEFAULT_BUMP_MAPPING,
+  filterCommitsByPaths,
+  filterCommitsByScopes,
+  getBranchConfigForRef,
+  getBranchNameFromRef,
+  getBumpTypeFromCommits,
+  getHighestVersionTagWithinLine,
+  getInitialDevelopmentBumpType,
+  getPreReleaseIdentifierForBranch,
+  isVersionWithinLine,
+  renderPreReleaseTemplate,
+  squashCommitsOfPullRequests,
+  suffixWithPreRelease,
+  suffixWithPreReleaseCounter,
+  validatePreReleaseTemplate
+} from './logic';
+import {
+  Backend,
+  BranchConfig,
+  BumpDecision,
+  BumpFileConfig,
+  BumpMapping,
+  LintReport,
+  Logger,
+  MainOptions,
+  Mode,
+  NotConventionalCommitsReaction,
+  PackageConfig,
+  PackagesVersionResult,
+  PackageVersion,
+  PreReleaseIdentifierMapping,
+  PreReleaseMode,
+  RepositoryClient,
+  VersionResult,
+  VersionSource,
+  getBackendEnumFromString,
+  getBranchConfigsFromString,
+  getBumpFileConfigsFromLines,
+  getBumpMappingFromString,
+  getModeEnumFromString,
+  getNotConventionalCommitsReactionEnumFromString,
+  getPackageConfigsFromString,
+  getPreReleaseIdentifierMappingFromString,
+  getPreReleaseModeEnumFromString,
+  getVersionSourceEnumFromString
+} from './types';
+import { actionsLogger } from './utils';
 
 
 /**
- * Main function
+ * Determine the next version without any side effects on the workflow run, so it can be used outside
+ * of GitHub Actions as well. Throws an error if the version cannot be determined.
+ * @param logger Receives the log, defaults to the workflow log
  */
-export const main = async (
-  fullRepoName: string,
-  githubToken: string,
+export const getNextVersion = async (
+  repositoryClient: RepositoryClient,
   targetBranchRef: string,
   notConventionalCommitsReaction: string,
   initReleaseVersion: string,
-  preReleaseVersionGlue: string
-) => {
+  preReleaseVersionGlue: string,
+  options: MainOptions = {},
+  logger: Logger = actionsLogger
+): Promise<VersionResult | PackagesVersionResult> => {
   const notConventionalCommitsReactionEnum = getNotConventionalCommitsReactionEnumFromString(notConventionalCommitsReaction);
-  const githubClient = new GitHubClient(githubToken, fullRepoName);
-  
-  // Get the latest release tag
-  let latestReleaseTag = await githubClient.getLatestReleaseTag();
-  core.info(`Latest release tag: ${latestReleaseTag ?? ''}`);
-  core.setOutput('latest-release-tag', latestReleaseTag ?? '');
+
+  let bumpMapping: BumpMapping = DEFAULT_BUMP_MAPPING;
+  if (options.bumpMapping) {
+    try {
+      bumpMapping = { ...DEFAULT_BUMP_MAPPING, ...getBumpMappingFromString(options.bumpMapping) };
+    } catch (error) {
+      throw new Error(`Invalid bump mapping: ${error.message}`);
+    }
+  }
+
+  let preReleaseMode = PreReleaseMode.SHA;
+  let preReleaseIdentifierMapping: PreReleaseIdentifierMapping = {};
+  const preReleaseTemplate = options.preReleaseTemplate ?? '';
+  try {
+    if (options.preReleaseMode) {
+      preReleaseMode = getPreReleaseModeEnumFromString(options.preReleaseMode);
+    }
+    if (options.preReleaseIdentifier) {
+      preReleaseIdentifierMapping = getPreReleaseIdentifierMappingFromString(options.preReleaseIdentifier);
+    }
+    if (preReleaseTemplate) {
+      validatePreReleaseTemplate(preReleaseTemplate);
+      if (preReleaseMode === PreReleaseMode.COUNTER && !preReleaseTemplate.startsWith('+')) {
+        throw new Error(`Pre-release template (${preReleaseTemplate}) may only contain build metadata starting with + in counter mode`);
+      }
+    }
+  } catch (error) {
+    throw new Error(`Invalid pre-release configuration: ${error.message}`);
+  }
+
+  let versionSource = VersionSource.RELEASE;
+  if (options.versionSource) {
+    try {
+      versionSource = getVersionSourceEnumFromString(options.versionSource);
+    } catch (error) {
+      throw new Error(`Invalid version source: ${error.message}`);
+    }
+  }
+
+  const paths = options.paths ?? [];
+  const scopes = options.scopes ?? [];
+  const tagPattern = options.tagPattern ?? '';
+  const packageName = options.packageName ?? '';
+  try {
+    validateTagPattern(tagPattern, packageName);
+  } catch (error) {
+    throw new Error(`Invalid tag pattern: ${error.message}`);
+  }
+
+  let branchConfigs: Array<BranchConfig> = [];
+  if (options.branches) {
+    try {
+      branchConfigs = getBranchConfigsFromString(options.branches);
+    } catch (error) {
+      throw new Error(`Invalid branches configuration: ${error.message}`);
+    }
+  }
+
+  let packageConfigs: Array<PackageConfig> = [];
+  if (options.packages) {
+    try {
+      packageConfigs = getPackageConfigsFromString(options.packages);
+    } catch (error) {
+      throw new Error(`Invalid packages configuration: ${error.message}`);
+    }
+  }
+
+  if (options.resolvePullRequests) {
+    if (!repositoryClient.getMergedPullRequestsOfCommits) {
+      throw new Error('Invalid pull request resolution: resolving pull requests requires the github backend.');
+    }
+    if (packageConfigs.length > 0) {
+      throw new Error('Invalid pull request resolution: resolving pull requests is not supported in multi-package mode.');
+    }
+  }
+
+  // SHA used in SHA pre-release suffixes, only looked up when needed
+  const getCommitSha = async (): Promise<string> => options.commitSha || await repositoryClient.getCommitSha(targetBranchRef);
+
+  // Commits are read from the analyzed ref, e.g. the merge commit of a pull request, if given
+  const analyzedRef = options.analyzedRef || targetBranchRef;
+
+  const renderPreReleaseSuffix = async (): Promise<string> => renderPreReleaseTemplate(preReleaseTemplate, {
+    branch: options.branchName || getBranchNameFromRef(targetBranchRef),
+    runNumber: options.runNumber ?? null,
+    pullRequestNumber: options.pullRequestNumber ?? null,
+    sha: await getCommitSha(),
+    timestamp: new Date(),
+  });
+
+  const branchConfig = getBranchConfigForRef(targetBranchRef, branchConfigs);
+
+  if (packageConfigs.length > 0) {
+    // Multi-package mode
+    const isStableBranch = branchConfig
+      ? branchConfig.stable === true
+      : targetBranchRef === `refs/heads/${await repositoryClient.getDefaultBranchName()}`;
+
+    // Pre-releases count up per channel of the branch or in counter mode, like in single-package mode
+    let preReleaseCounterIdentifier: string | null = null;
+    if (!isStableBranch) {
+      preReleaseCounterIdentifier = branchConfig?.channel
+        ?? (preReleaseMode === PreReleaseMode.COUNTER ? getPreReleaseIdentifierForBranch(targetBranchRef, preReleaseIdentifierMapping) : null);
+    }
+    if (preReleaseCounterIdentifier && preReleaseTemplate && !preReleaseTemplate.startsWith('+')) {
+      throw new Error(`Invalid pre-release configuration: Pre-release template (${preReleaseTemplate}) may only contain build metadata starting with + on branches with a pre-release channel`);
+    }
+
+    let packageVersions: Record<string, PackageVersion>;
+    try {
+      packageVersions = await getPackageVersions(repositoryClient, analyzedRef, packageConfigs, {
+        notConventionalCommitsReaction: notConventionalCommitsReactionEnum,
+        bumpMapping,
+        initReleaseVersion,
+        versionSource,
+        tagPattern,
+        scopes,
+        line: branchConfig?.line ?? null,
+        skipReleaseWhenNotNeeded: options.skipReleaseWhenNotNeeded ?? false,
+        initialDevelopmentMode: options.initialDevelopmentMode ?? false,
+        bumpDependents: options.bumpDependents ?? false,
+        preReleaseVersionGlue: isStableBranch ? null : preReleaseVersionGlue,
+        commitSha: isStableBranch ? null : await getCommitSha(),
+        preReleaseSuffix: isStableBranch || !preReleaseTemplate ? null : await renderPreReleaseSuffix(),
+        preReleaseCounterIdentifier,
+      }, logger);
+    } catch (error) {
+      throw new Error(`Failed to determine versions of packages: ${error.message}`);
+    }
+
+    const releaseNeeded = Object.values(packageVersions).some(packageVersion => packageVersion.releaseNeeded);
+    logger.info(`Release needed: ${releaseNeeded}`);
+    return { releaseNeeded, stable: isStableBranch, packages: packageVersions };
+  }
+
+  // Get the latest release tag, within the release line of the branch if it has one
+  // and matching the tag pattern if there is one
+  let latestReleaseTag: string | null;
+  if (branchConfig?.line || tagPattern) {
+    const line = branchConfig?.line ?? '*';
+    logger.info(`Looking up latest ${versionSource} within release line ${line}${tagPattern ? ` matching tag pattern ${tagPattern}` : ''}.`);
+    const releaseTags = versionSource === VersionSource.TAG
+      ? await repositoryClient.getTagNames()
+      : await repositoryClient.getReleaseTagNames();
+    latestReleaseTag = getHighestVersionTagWithinLine(releaseTags, line, tagPattern, packageName);
+  } else if (versionSource === VersionSource.TAG) {
+    latestReleaseTag = await repositoryClient.getLatestVersionTag();
+  } else {
+    latestReleaseTag = await repositoryClient.getLatestReleaseTag();
+  }
+  logger.info(`Latest release tag: ${latestReleaseTag ?? ''}`);
 
   // Variable to hold the versions
   let currentVersion: string = '';
   let newVersion: string = '';
+  let changelog: string = '';
+  let releaseNeeded: boolean = true;
+  let versionBumped: boolean = true;
+  let bumpDecision: BumpDecision = { bumpType: null, considered: [], ignored: [], nonConventional: [], trigger: null };
 
   if (latestReleaseTag) {
     // Validate the latest release tag
-    currentVersion = semver.valid(latestReleaseTag);
+    currentVersion = getVersionFromTag(latestReleaseTag, tagPattern, packageName);
     if (!currentVersion) {
       // If the latest release tag is not valid semver, fail the action
-      core.setFailed(`Latest release tag (${latestReleaseTag}) is not a valid semver version. Please ensure your latest release tag follows semver format.`);
-      return;
+      throw new Error(`Latest release tag (${latestReleaseTag}) is not a valid semver version. Please ensure your latest release tag follows semver format.`);
     }
 
     // Define a variable to hold the determined bump type
@@ -47,32 +255,69 @@ export const main = async (
       // Get the list of commits between the latest release tag and the target branch
       let commits: Commit[] = [];
       try {
-        core.debug(`Getting list of commits between ${latestReleaseTag} and ${targetBranchRef}.`);
-        commits = await githubClient.getListOfCommitsBetween(latestReleaseTag, targetBranchRef);
+        logger.debug(`Getting list of commits between ${latestReleaseTag} and ${analyzedRef}.`);
+        commits = await repositoryClient.getListOfCommitsBetween(latestReleaseTag, analyzedRef, paths.length > 0);
       } catch (error) {
-        core.setFailed(`Failed to get the list of commits between ${latestReleaseTag} and ${targetBranchRef}. Please ensure the target branch exists.`);
-        return;
+        throw new Error(`Failed to get the list of commits between ${latestReleaseTag} and ${analyzedRef}. Please ensure the target branch exists.`);
+      }
+
+      if (options.resolvePullRequests) {
+        commits = await resolvePullRequestsOfCommits(repositoryClient, commits, logger);
+        logger.info(`Resolved commits to ${commits.filter(commit => commit.pullRequest).length} merged pull requests.`);
+      }
+
+      if (paths.length > 0) {
+        commits = filterCommitsByPaths(commits, paths, logger);
+        logger.info(`Found ${commits.length} commits changing files matching the paths (${paths.join(', ')}).`);
+      }
+
+      if (scopes.length > 0) {
+        commits = filterCommitsByScopes(commits, scopes, logger);
+        logger.info(`Found ${commits.length} commits with scopes matching the scopes (${scopes.join(', ')}).`);
       }
 
       if (commits.length === 0) {
-        core.info('No new commits found since the latest release.');
+        logger.info('No new commits found since the latest release.');
       } else {
-        core.info(`Found ${commits.length} commits since the latest release.`);
-        bumpType = getBumpTypeFromCommits(commits, notConventionalCommitsReactionEnum);
+        logger.info(`Found ${commits.length} commits since the latest release.`);
+        bumpDecision = getBumpTypeFromCommits(commits, notConventionalCommitsReactionEnum, bumpMapping, logger);
+        bumpType = bumpDecision.bumpType;
+        if (bumpDecision.trigger) {
+          logger.info(`Bump type ${bumpType} triggered by commit ${bumpDecision.trigger.sha}: ${bumpDecision.trigger.subject}`);
+        }
+        changelog = generateChangelog(commits);
       }
     }
 
     if (!bumpType) {
-      core.info('No conventional commits found. Bumping patch version.');
-      bumpType = 'patch';
+      // No release is needed without releasable commits, the option only decides whether the version is bumped anyway
+      releaseNeeded = false;
+      if (options.skipReleaseWhenNotNeeded) {
+        logger.info('No releasable commits found. Skipping version bump.');
+        versionBumped = false;
+      } else {
+        logger.info('No releasable commits found. Bumping patch version.');
+        bumpType = 'patch';
+      }
     }
-    core.info(`Bump type: ${bumpType}`);
 
-    // Calculate the new version
-    newVersion = semver.inc(currentVersion, bumpType);
-    if (!newVersion) {
-      core.setFailed('Failed to increment version. Please check the current version and bump type.');
-      return;
+    if (versionBumped) {
+      if (options.initialDevelopmentMode && semver.major(currentVersion) === 0) {
+        const initialDevelopmentBumpType = getInitialDevelopmentBumpType(bumpType, currentVersion);
+        if (initialDevelopmentBumpType !== bumpType) {
+          logger.info(`Current version (${currentVersion}) is in initial development. Lowering bump type from ${bumpType} to ${initialDevelopmentBumpType}.`);
+          bumpType = initialDevelopmentBumpType;
+        }
+      }
+      logger.info(`Bump type: ${bumpType}`);
+
+      // Calculate the new version
+      newVersion = semver.inc(currentVersion, bumpType);
+      if (!newVersion) {
+        throw new Error('Failed to increment version. Please check the current version and bump type.');
+      }
+    } else {
+      newVersion = currentVersion;
     }
 
   } else {
@@ -81,29 +326,443 @@ export const main = async (
 
     if (!newVersion) {
       // If the provided initial version is not valid, fail the action
-      core.setFailed(`No valid latest release tag found and the provided initial version (${initReleaseVersion}) is not a valid semver version.`);
-      return;
+      throw new Error(`No valid latest release tag found and the provided initial version (${initReleaseVersion}) is not a valid semver version.`);
     }
   }
 
-  core.info(`Current version: ${currentVersion}`);
-  core.setOutput('current-version', currentVersion);
+  logger.info(`Current version: ${currentVersion}`);
 
   // Get major version before any pre-release suffix is added
   const newMajorVersion = semver.major(newVersion);
 
-  // Get the default branch name
-  const defaultBranch = await githubClient.getDefaultBranchName();
-  const defaultBranchRef = `refs/heads/${defaultBranch}`;
-  if (targetBranchRef !== defaultBranchRef) {
+  // Decide whether the target branch releases stable or pre-release versions
+  let isStableBranch: boolean;
+  let preReleaseChannel: string | null = null;
+  if (branchConfig) {
+    logger.info(`Target ref (${targetBranchRef}) matches branch pattern '${branchConfig.pattern}'.`);
+    isStableBranch = branchConfig.stable === true;
+    preReleaseChannel = branchConfig.channel ?? null;
+
+    if (versionBumped && branchConfig.line && !isVersionWithinLine(newVersion, branchConfig.line)) {
+      // The version would collide with releases of a newer release line
+      throw new Error(`New version (${newVersion}) is out of the release line (${branchConfig.line}) of branch pattern '${branchConfig.pattern}'.`);
+    }
+  } else {
+    // Get the default branch name
+    const defaultBranch = await repositoryClient.getDefaultBranchName();
+    const defaultBranchRef = `refs/heads/${defaultBranch}`;
+    isStableBranch = targetBranchRef === defaultBranchRef;
+    if (versionBumped && !isStableBranch) {
+      logger.info(`Target ref (${targetBranchRef}) is not the default branch ref (${defaultBranchRef}). Suffixing version with pre-release identifier.`);
+    }
+  }
+
+  if (versionBumped && !isStableBranch) {
     // Pre-release
-    core.info(`Target ref (${targetBranchRef}) is not the default branch ref (${defaultBranchRef}). Suffixing version with pre-release identifier.`);
-    newVersion = suffixWithPreRelease(newVersion, preReleaseVersionGlue);
+    if (preReleaseChannel) {
+      logger.info(`Suffixing version with pre-release channel '${preReleaseChannel}'.`);
+      const existingVersions = getVersionsFromTags(await repositoryClient.getTagNames(), tagPattern, packageName);
+      newVersion = suffixWithPreReleaseCounter(newVersion, preReleaseChannel, existingVersions);
+    } else if (preReleaseMode === PreReleaseMode.COUNTER) {
+      const preReleaseIdentifier = getPreReleaseIdentifierForBranch(targetBranchRef, preReleaseIdentifierMapping);
+      const existingVersions = getVersionsFromTags(await repositoryClient.getTagNames(), tagPattern, packageName);
+      newVersion = suffixWithPreReleaseCounter(newVersion, preReleaseIdentifier, existingVersions);
+    } else if (preReleaseTemplate) {
+      logger.info(`Suffixing version with pre-release template '${preReleaseTemplate}'.`);
+      newVersion = `${newVersion}${await renderPreReleaseSuffix()}`;
+    } else {
+      newVersion = suffixWithPreRelease(newVersion, preReleaseVersionGlue, await getCommitSha());
+    }
+
+    // Counter pre-releases only get build metadata from the template
+    if ((preReleaseChannel || preReleaseMode === PreReleaseMode.COUNTER) && preReleaseTemplate) {
+      if (!preReleaseTemplate.startsWith('+')) {
+        throw new Error(`Invalid pre-release configuration: Pre-release template (${preReleaseTemplate}) may only contain build metadata starting with + on branches with a pre-release channel`);
+      }
+      newVersion = `${newVersion}${await renderPreReleaseSuffix()}`;
+    }
+  }
+
+  logger.info(`Release needed: ${releaseNeeded}`);
+  logger.info(`New version: ${newVersion}`);
+
+  const newTag = renderTag(newVersion, tagPattern, packageName);
+  logger.info(`New tag: ${newTag}`);
+  logger.info(`New major version: ${newMajorVersion}`);
+  logger.debug(`Changelog:\n${changelog}`);
+
+  // A custom pre-release glue may produce versions which are not valid semver
+  const formattedVersions = semver.valid(newVersion) ? renderVersionFormats(newVersion, isStableBranch) : null;
+  if (!formattedVersions) {
+    logger.info(`New version ${newVersion} is not valid semver, it is not rendered for package ecosystems.`);
+  }
+
+  return {
+    latestReleaseTag: latestReleaseTag ?? '',
+    currentVersion,
+    newVersion,
+    newMajorVersion,
+    newTag,
+    releaseNeeded,
+    changelog,
+    bumpDecision,
+    stable: isStableBranch,
+    formattedVersions,
+  };
+}
+
+
+/**
+ * Main function of the action, setting the outputs and creating the release and tags if requested.
+ */
+export const main = async (
+  fullRepoName: string,
+  githubToken: string,
+  targetBranchRef: string,
+  notConventionalCommitsReaction: string,
+  initReleaseVersion: string,
+  preReleaseVersionGlue: string,
+  options: MainOptions = {}
+) => {
+  let backend = Backend.GITHUB;
+  if (options.backend) {
+    try {
+      backend = getBackendEnumFromString(options.backend);
+    } catch (error) {
+      core.setFailed(`Invalid backend: ${error.message}`);
+      return;
+    }
   }
+  if (backend !== Backend.GITHUB && (options.createRelease || options.updateMajorTag || options.updateMinorTag)) {
+    core.setFailed('Invalid backend: creating releases and moving floating tags require the github backend.');
+    return;
+  }
+  if (backend === Backend.GITEA && !options.apiUrl) {
+    core.setFailed('Invalid backend: the gitea backend requires the API URL.');
+    return;
+  }
+
+  let mode = Mode.VERSION;
+  if (options.mode) {
+    try {
+      mode = getModeEnumFromString(options.mode);
+    } catch (error) {
+      core.setFailed(`Invalid mode: ${error.message}`);
+      return;
+    }
+  }
+  if (mode === Mode.LINT && backend !== Backend.GITHUB) {
+    core.setFailed('Invalid mode: lint mode requires the github backend.');
+    return;
+  }
+
+  let bumpFiles: Array<BumpFileConfig> = [];
+  try {
+    bumpFiles = getBumpFileConfigsFromLines(options.bumpFiles ?? []);
+  } catch (error) {
+    core.setFailed(`Invalid bump files: ${error.message}`);
+    return;
+  }
+  if (bumpFiles.length > 0 && options.packages) {
+    core.setFailed('Invalid bump files: in multi-package mode, the files are given as bumpFiles of each package.');
+    return;
+  }
+
+  // Releases and tags are only created with the github backend, checked above
+  const githubClient = backend === Backend.GITHUB ? new GitHubClient(githubToken, fullRepoName, options.apiUrl || undefined) : null;
+  let repositoryClient: RepositoryClient;
+  if (backend === Backend.GITEA) {
+    repositoryClient = new GiteaClient(githubToken, fullRepoName, options.apiUrl);
+  } else if (backend === Backend.GIT) {
+    repositoryClient = new LocalGitClient();
+  } else {
+    repositoryClient = githubClient;
+  }
+
+  const versionOptions: MainOptions = {
+    commitSha: context.sha,
+    branchName: context.payload?.pull_request?.head?.ref,
+    runNumber: context.runNumber,
+    pullRequestNumber: context.payload?.pull_request?.number,
+    ...options,
+  };
+
+  if (mode === Mode.LINT) {
+    await lintPullRequestOfRun(githubClient, notConventionalCommitsReaction, initReleaseVersion, preReleaseVersionGlue, versionOptions);
+    return;
+  }
+
+  let result: VersionResult | PackagesVersionResult;
+  try {
+    result = await getNextVersion(
+      repositoryClient,
+      targetBranchRef,
+      notConventionalCommitsReaction,
+      initReleaseVersion,
+      preReleaseVersionGlue,
+      versionOptions
+    );
+  } catch (error) {
+    core.setFailed(error.message);
+    return;
+  }
+
+  if ('packages' in result) {
+    core.setOutput('release-needed', result.releaseNeeded.toString());
+    core.setOutput('packages', JSON.stringify(result.packages));
+    if (!await bumpFilesOfPackages(result, options)) {
+      return;
+    }
+    await releasePackages(githubClient, targetBranchRef, result, options);
+    return;
+  }
+
+  core.setOutput('latest-release-tag', result.latestReleaseTag);
+  core.setOutput('current-version', result.currentVersion);
+  core.setOutput('release-needed', result.releaseNeeded.toString());
+  core.setOutput('new-version', result.newVersion);
+  core.setOutput('new-tag', result.newTag);
+  core.setOutput('new-major-version', result.newMajorVersion.toString());
+  core.setOutput('changelog', result.changelog);
+  core.setOutput('bump-decision', JSON.stringify(result.bumpDecision));
+  if (result.formattedVersions) {
+    core.setOutput('pep440-version', result.formattedVersions.pep440);
+    core.setOutput('nuget-version', result.formattedVersions.nuget);
+    core.setOutput('maven-version', result.formattedVersions.maven);
+    core.setOutput('docker-tag', result.formattedVersions.docker);
+  }
+  await writeBumpDecisionSummary(result.bumpDecision, result.currentVersion, result.newVersion, result.releaseNeeded);
+
+  if (result.releaseNeeded && bumpFiles.length > 0) {
+    try {
+      core.setOutput('bumped-files', JSON.stringify(await bumpVersionInFiles(bumpFiles, result.newVersion, result.stable)));
+    } catch (error) {
+      core.setFailed(`Failed to write version into bump files: ${error.message}`);
+      return;
+    }
+  }
+
+  // Floating tags only follow stable versions which are the highest of their line
+  let floatingTags: Array<string> = [];
+  if (result.releaseNeeded && result.stable && (options.updateMajorTag || options.updateMinorTag)) {
+    try {
+      floatingTags = renderFloatingTags(
+        result.newVersion,
+        options.updateMajorTag ?? false,
+        options.updateMinorTag ?? false,
+        options.tagPattern,
+        options.packageName,
+        await githubClient.getTagNames()
+      );
+    } catch (error) {
+      core.setFailed(`Failed to get tags: ${error.message}`);
+      return;
+    }
+  }
+  if (!result.releaseNeeded || (!options.createRelease && floatingTags.length === 0)) {
+    return;
+  }
+
+  let targetSha: string;
+  try {
+    targetSha = await githubClient.getCommitSha(targetBranchRef);
+  } catch (error) {
+    core.setFailed(`Failed to get the commit of ${targetBranchRef}: ${error.message}`);
+    return;
+  }
+
+  if (options.createRelease) {
+    try {
+      const release = await createTagAndRelease(
+        githubClient,
+        result.newTag,
+        targetSha,
+        result.changelog,
+        options.releaseDraft ?? false,
+        !result.stable
+      );
+      core.setOutput('release-url', release.url);
+    } catch (error) {
+      core.setFailed(`Failed to create release ${result.newTag}: ${error.message}`);
+      return;
+    }
+  }
+
+  if (floatingTags.length > 0) {
+    try {
+      await moveFloatingTags(githubClient, floatingTags, targetSha);
+    } catch (error) {
+      core.setFailed(`Failed to move floating tags (${floatingTags.join(', ')}): ${error.message}`);
+    }
+  }
+}
+
+
+/**
+ * Lint the title and commits of the pull request of the workflow run, and comment the report together with
+ * the version predicted for merging the pull request on it. The prediction analyzes the merge commit of the
+ * pull request as if it was the base branch.
+ */
+const lintPullRequestOfRun = async (
+  githubClient: GitHubClient,
+  notConventionalCommitsReaction: string,
+  initReleaseVersion: string,
+  preReleaseVersionGlue: string,
+  options: MainOptions
+): Promise<void> => {
+  const pullRequest = context.payload?.pull_request;
+  if (!pullRequest) {
+    core.setFailed('Invalid mode: lint mode requires a pull_request event.');
+    return;
+  }
+
+  let reaction: NotConventionalCommitsReaction;
+  try {
+    reaction = getNotConventionalCommitsReactionEnumFromString(notConventionalCommitsReaction);
+  } catch (error) {
+    core.setFailed(error.message);
+    return;
+  }
+
+  let report: LintReport;
+  try {
+    report = lintPullRequest(pullRequest.title, await githubClient.getPullRequestCommits(pullRequest.number));
+  } catch (error) {
+    core.setFailed(`Failed to get commits of pull request #${pullRequest.number}: ${error.message}`);
+    return;
+  }
+  core.setOutput('lint-report', JSON.stringify(report));
+
+  // Messages not in conventional-commits format are reported by the lint, not again by the prediction
+  let prediction: VersionResult | PackagesVersionResult | Error;
+  try {
+    prediction = await getNextVersion(
+      githubClient,
+      `refs/heads/${pullRequest.base.ref}`,
+      NotConventionalCommitsReaction.IGNORE,
+      initReleaseVersion,
+      preReleaseVersionGlue,
+      { ...options, analyzedRef: context.sha }
+    );
+  } catch (error) {
+    core.warning(`Failed to predict the next version: ${error.message}`);
+    prediction = error;
+  }
+
+  try {
+    await writeLintComment(githubClient, pullRequest.number, renderLintComment(report, prediction));
+  } catch (error) {
+    // E.g. pull requests from forks get a read-only token
+    core.warning(`Failed to comment on pull request #${pullRequest.number}: ${error.message}`);
+  }
+
+  reportLintResult(report, reaction);
+}
+
+
+/**
+ * Replace the commits merged with a pull request by a single commit with the title and labels of the pull request,
+ * so pull requests merged with merge commits are analyzed like squash merged ones.
+ * A commit belonging to several pull requests, e.g. to a feature and a release pull request, is resolved to
+ * the pull request it is the merge commit of, otherwise to the oldest one, which is the one it was written for.
+ */
+const resolvePullRequestsOfCommits = async (
+  repositoryClient: RepositoryClient,
+  commits: Array<Commit>,
+  logger: Logger
+): Promise<Array<Commit>> => {
+  let mergedPullRequestsOfCommits: Map<string, Array<PullRequest>>;
+  try {
+    mergedPullRequestsOfCommits = await repositoryClient.getMergedPullRequestsOfCommits(commits.map(commit => commit.sha));
+  } catch (error) {
+    throw new Error(`Failed to get the pull requests of commits: ${error.message}`);
+  }
+
+  const pullRequests = new Map<string, PullRequest>();
+  for (const commit of commits) {
+    const mergedPullRequests = mergedPullRequestsOfCommits.get(commit.sha) ?? [];
+    const pullRequest = mergedPullRequests.find(({ mergeCommitSha }) => mergeCommitSha === commit.sha)
+      ?? [...mergedPullRequests].sort((a, b) => a.number - b.number)[0];
+    if (pullRequest) {
+      pullRequests.set(commit.sha, pullRequest);
+    }
+  }
+
+  return squashCommitsOfPullRequests(commits, pullRequests, logger);
+}
+
+
+/**
+ * Write the new versions of packages which need a release into their bump files in multi-package mode.
+ * Returns false if writing failed and the action has been marked as failed.
+ */
+const bumpFilesOfPackages = async (result: PackagesVersionResult, options: MainOptions): Promise<boolean> => {
+  const packageConfigs = getPackageConfigsFromString(options.packages)
+    .filter(packageConfig => result.packages[packageConfig.name].releaseNeeded && packageConfig.bumpFiles?.length > 0);
+  if (packageConfigs.length === 0) {
+    return true;
+  }
+
+  const bumpedFiles: Array<string> = [];
+  try {
+    for (const packageConfig of packageConfigs) {
+      bumpedFiles.push(...await bumpVersionInFiles(packageConfig.bumpFiles, result.packages[packageConfig.name].newVersion, result.stable));
+    }
+  } catch (error) {
+    core.setFailed(`Failed to write versions of packages into bump files: ${error.message}`);
+    return false;
+  }
+  core.setOutput('bumped-files', JSON.stringify(bumpedFiles));
+  return true;
+}
 
-  core.info(`New version: ${newVersion}`);
-  core.setOutput('new-version', newVersion);
 
-  core.info(`New major version: ${newMajorVersion}`);
-  core.setOutput('new-major-version', newMajorVersion.toString());
+/**
+ * Create the releases and move the floating tags of packages which need a release in multi-package mode.
+ */
+const releasePackages = async (
+  githubClient: GitHubClient,
+  targetBranchRef: string,
+  result: PackagesVersionResult,
+  options: MainOptions
+): Promise<void> => {
+  const packageConfigs = getPackageConfigsFromString(options.packages);
+  const releasedPackageConfigs = packageConfigs.filter(packageConfig => result.packages[packageConfig.name].releaseNeeded);
+  const moveFloatingTagsOfPackages = result.stable && (options.updateMajorTag || options.updateMinorTag);
+  if (releasedPackageConfigs.length === 0 || (!options.createRelease && !moveFloatingTagsOfPackages)) {
+    return;
+  }
+
+  try {
+    const targetSha = await githubClient.getCommitSha(targetBranchRef);
+    const existingTags = moveFloatingTagsOfPackages ? await githubClient.getTagNames() : [];
+    for (const packageConfig of releasedPackageConfigs) {
+      const packageVersion = result.packages[packageConfig.name];
+      if (options.createRelease) {
+        await createTagAndRelease(
+          githubClient,
+          packageVersion.newTag,
+          targetSha,
+          packageVersion.changelog,
+          options.releaseDraft ?? false,
+          !result.stable
+        );
+      }
+      if (moveFloatingTagsOfPackages) {
+        const floatingTags = renderFloatingTags(
+          packageVersion.newVersion,
+          options.updateMajorTag ?? false,
+          options.updateMinorTag ?? false,
+          getPackageTagPattern(packageConfig, options.tagPattern ?? ''),
+          packageConfig.name,
+          existingTags
+        );
+        if (floatingTags.length > 0) {
+          await moveFloatingTags(githubClient, floatingTags, targetSha);
+        }
+      }
+    }
+  } catch (error) {
+    core.setFailed(`Failed to create releases of packages: ${error.message}`);
+  }
 }
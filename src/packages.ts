@@ -0,0 +1,270 @@
+import * as semver from 'semver';
+
+import { generateChangelog } from './changelog';
+import { Commit } from "./github/types";
+import {
+  filterCommitsByPaths,
+  filterCommitsByScopes,
+  getBumpTypeFromCommits,
+  getHighestVersionTagWithinLine,
+  getInitialDevelopmentBumpType,
+  getScopesOfMessage,
+  isVersionWithinLine,
+  matchesAnyScopePattern,
+  suffixWithPreRelease,
+  suffixWithPreReleaseCounter
+} from './logic';
+import { getVersionFromTag, getVersionsFromTags, renderTag, validateTagPattern } from './tags';
+import {
+  BumpMapping,
+  Logger,
+  NotConventionalCommitsReaction,
+  PackageConfig,
+  PackageVersion,
+  RepositoryClient,
+  VersionSource
+} from './types';
+import { actionsLogger } from './utils';
+
+export const DEFAULT_PACKAGE_TAG_PATTERN = '{package}@{version}';
+
+/**
+ * Settings used to determine the versions of packages.
+ */
+export interface PackageVersionsSettings {
+  notConventionalCommitsReaction: NotConventionalCommitsReaction;
+  bumpMapping: BumpMapping;
+  initReleaseVersion: string;
+  versionSource: VersionSource;
+  /** Tag pattern of packages not defining their own one */
+  tagPattern: string;
+  /** Commit scope globs applied to the commits of all packages, see `filterCommitsByScopes` */
+  scopes: Array<string>;
+  /** Release line all versions must stay within */
+  line: string | null;
+  skipReleaseWhenNotNeeded: boolean;
+  initialDevelopmentMode: boolean;
+  bumpDependents: boolean;
+  /** Pre-release glue, or null if stable versions are released */
+  preReleaseVersionGlue: string | null;
+  /** Commit SHA used in pre-release suffixes, or null if stable versions are released */
+  commitSha: string | null;
+  /** Suffix rendered from the pre-release template, used instead of glue and commit SHA, or null */
+  preReleaseSuffix: string | null;
+  /**
+   * Identifier of counter pre-releases, e.g. `rc` for `1.3.0-rc.2`, from the channel of the branch or counter mode,
+   * or null. The pre-release suffix is appended to the counter as build metadata.
+   */
+  preReleaseCounterIdentifier: string | null;
+}
+
+
+/**
+ * Get the tag pattern of a package, falling back to the common tag pattern and then to `{package}@{version}`.
+ */
+export const getPackageTagPattern = (packageConfig: PackageConfig, tagPattern: string): string => {
+  return packageConfig.tagPattern ?? (tagPattern || DEFAULT_PACKAGE_TAG_PATTERN);
+}
+
+
+/**
+ * Filter commits to those of the package. Commits with a scope routed to any package by its `scopes`
+ * belong only to the packages it is routed to, other commits belong to packages whose files they change.
+ */
+export const filterCommitsOfPackage = (
+  commits: Array<Commit>,
+  packageConfig: PackageConfig,
+  packageConfigs: Array<PackageConfig>,
+  logger: Logger = actionsLogger
+): Array<Commit> => {
+  const commitsChangingFiles = new Set(filterCommitsByPaths(commits, packageConfig.paths, logger));
+
+  return commits.filter(commit => {
+    const scopes = getScopesOfMessage(commit.message) ?? [];
+    const routedPackageNames = packageConfigs
+      .filter(config => scopes.some(scope => matchesAnyScopePattern(scope, config.scopes ?? [])))
+      .map(config => config.name);
+
+    if (routedPackageNames.length > 0) {
+      return routedPackageNames.includes(packageConfig.name);
+    }
+    return commitsChangingFiles.has(commit);
+  });
+}
+
+
+/**
+ * Get the names of packages which depend, directly or transitively, on any of the released packages.
+ */
+export const getDependentPackageNames = (packageConfigs: Array<PackageConfig>, releasedPackageNames: Array<string>): Array<string> => {
+  const released = new Set(releasedPackageNames);
+  const dependents: Array<string> = [];
+
+  let changed = true;
+  while (changed) {
+    changed = false;
+    for (const packageConfig of packageConfigs) {
+      if (!released.has(packageConfig.name) && (packageConfig.dependencies ?? []).some(dependency => released.has(dependency))) {
+        released.add(packageConfig.name);
+        dependents.push(packageConfig.name);
+        changed = true;
+      }
+    }
+  }
+
+  return dependents;
+}
+
+
+/**
+ * Determine the versions of all packages, fetching the tags and the files changed by each commit only once.
+ * Throws an error if the version of any package cannot be determined.
+ */
+export const getPackageVersions = async (
+  repositoryClient: RepositoryClient,
+  targetBranchRef: string,
+  packageConfigs: Array<PackageConfig>,
+  settings: PackageVersionsSettings,
+  logger: Logger = actionsLogger
+): Promise<Record<string, PackageVersion>> => {
+  const tagPatterns = new Map<string, string>();
+  for (const packageConfig of packageConfigs) {
+    const tagPattern = getPackageTagPattern(packageConfig, settings.tagPattern);
+    validateTagPattern(tagPattern, packageConfig.name);
+    tagPatterns.set(packageConfig.name, tagPattern);
+  }
+
+  // Get the latest release tag of each package
+  const tags = await repositoryClient.getTags();
+  let candidateTagNames = tags.map(tag => tag.name);
+  if (settings.versionSource === VersionSource.RELEASE) {
+    const releaseTagNames = new Set(await repositoryClient.getReleaseTagNames());
+    candidateTagNames = candidateTagNames.filter(tagName => releaseTagNames.has(tagName));
+  }
+
+  const latestReleaseTags = new Map<string, string | null>();
+  for (const packageConfig of packageConfigs) {
+    const latestReleaseTag = getHighestVersionTagWithinLine(
+      candidateTagNames,
+      settings.line ?? '*',
+      tagPatterns.get(packageConfig.name),
+      packageConfig.name
+    );
+    logger.info(`Latest release tag of package ${packageConfig.name}: ${latestReleaseTag ?? ''}`);
+    latestReleaseTags.set(packageConfig.name, latestReleaseTag);
+  }
+
+  // Determine the bump type of each package from its own commits. The commits since each tag are listed without
+  // their files, which are fetched only once for commits since the tags of several packages.
+  const commitsSinceTags = new Map<string, Array<Commit>>();
+  const filesOfCommits = new Map<string, Array<string>>();
+  const bumpTypes = new Map<string, semver.ReleaseType | null>();
+  const changelogs = new Map<string, string>();
+  for (const packageConfig of packageConfigs) {
+    const latestReleaseTag = latestReleaseTags.get(packageConfig.name);
+    if (!latestReleaseTag) {
+      continue;
+    }
+
+    if (!commitsSinceTags.has(latestReleaseTag)) {
+      const commitsSinceTag = await repositoryClient.getListOfCommitsBetween(latestReleaseTag, targetBranchRef);
+      for (const commit of commitsSinceTag) {
+        if (!filesOfCommits.has(commit.sha)) {
+          filesOfCommits.set(commit.sha, await repositoryClient.getListOfFilesChangedBy(commit.sha));
+        }
+        commit.files = filesOfCommits.get(commit.sha);
+      }
+      commitsSinceTags.set(latestReleaseTag, commitsSinceTag);
+    }
+
+    let packageCommits = filterCommitsOfPackage(commitsSinceTags.get(latestReleaseTag), packageConfig, packageConfigs, logger);
+    if (settings.scopes.length > 0) {
+      packageCommits = filterCommitsByScopes(packageCommits, settings.scopes, logger);
+    }
+    logger.info(`Found ${packageCommits.length} commits of package ${packageConfig.name} since ${latestReleaseTag}.`);
+    changelogs.set(packageConfig.name, generateChangelog(packageCommits));
+    bumpTypes.set(
+      packageConfig.name,
+      packageCommits.length > 0
+        ? getBumpTypeFromCommits(packageCommits, settings.notConventionalCommitsReaction, settings.bumpMapping, logger).bumpType
+        : null
+    );
+  }
+
+  if (settings.bumpDependents) {
+    const releasedPackageNames = packageConfigs
+      .map(packageConfig => packageConfig.name)
+      .filter(name => !latestReleaseTags.get(name) || bumpTypes.get(name));
+    for (const dependentPackageName of getDependentPackageNames(packageConfigs, releasedPackageNames)) {
+      logger.info(`Package ${dependentPackageName} depends on a released package. Bumping patch version.`);
+      bumpTypes.set(dependentPackageName, 'patch');
+    }
+  }
+
+  // Calculate the new version of each package
+  const packageVersions: Record<string, PackageVersion> = {};
+  for (const packageConfig of packageConfigs) {
+    const tagPattern = tagPatterns.get(packageConfig.name);
+    const latestReleaseTag = latestReleaseTags.get(packageConfig.name);
+
+    let currentVersion = '';
+    let newVersion: string;
+    let bumpType = bumpTypes.get(packageConfig.name) ?? null;
+    let releaseNeeded = true;
+    let versionBumped = true;
+
+    if (latestReleaseTag) {
+      currentVersion = getVersionFromTag(latestReleaseTag, tagPattern, packageConfig.name);
+
+      if (!bumpType) {
+        releaseNeeded = false;
+        if (settings.skipReleaseWhenNotNeeded) {
+          versionBumped = false;
+        } else {
+          bumpType = 'patch';
+        }
+      }
+
+      if (versionBumped) {
+        if (settings.initialDevelopmentMode && semver.major(currentVersion) === 0) {
+          bumpType = getInitialDevelopmentBumpType(bumpType, currentVersion);
+        }
+        newVersion = semver.inc(currentVersion, bumpType);
+      } else {
+        newVersion = currentVersion;
+      }
+    } else {
+      newVersion = semver.valid(settings.initReleaseVersion);
+      if (!newVersion) {
+        throw new Error(`No valid latest release tag found for package ${packageConfig.name} and the provided initial version (${settings.initReleaseVersion}) is not a valid semver version.`);
+      }
+    }
+
+    if (versionBumped && settings.line && !isVersionWithinLine(newVersion, settings.line)) {
+      throw new Error(`New version of package ${packageConfig.name} (${newVersion}) is out of the release line (${settings.line}).`);
+    }
+
+    if (versionBumped && settings.preReleaseCounterIdentifier) {
+      const existingVersions = getVersionsFromTags(tags.map(tag => tag.name), tagPattern, packageConfig.name);
+      newVersion = suffixWithPreReleaseCounter(newVersion, settings.preReleaseCounterIdentifier, existingVersions);
+      newVersion = `${newVersion}${settings.preReleaseSuffix ?? ''}`;
+    } else if (versionBumped && settings.preReleaseSuffix) {
+      newVersion = `${newVersion}${settings.preReleaseSuffix}`;
+    } else if (versionBumped && settings.preReleaseVersionGlue !== null) {
+      newVersion = suffixWithPreRelease(newVersion, settings.preReleaseVersionGlue, settings.commitSha);
+    }
+
+    logger.info(`Package ${packageConfig.name}: ${currentVersion || '-'} -> ${newVersion}`);
+    packageVersions[packageConfig.name] = {
+      latestReleaseTag: latestReleaseTag ?? '',
+      currentVersion,
+      newVersion,
+      newTag: renderTag(newVersion, tagPattern, packageConfig.name),
+      bumpType: versionBumped && latestReleaseTag ? bumpType : '',
+      releaseNeeded,
+      changelog: changelogs.get(packageConfig.name) ?? '',
+    };
+  }
+
+  return packageVersions;
+}
@@ -0,0 +1,52 @@
+import * as core from '@actions/core';
+
+import { GitHubClient } from './github';
+import { Release } from "./github/types";
+
+
+/**
+ * Create the tag at the commit and a GitHub Release of it, with the body as release notes.
+ * An existing tag pointing to the commit and an existing release of the tag are reused,
+ * so running again for the same version does not duplicate them.
+ * Throws an error if the tag already exists and points to another commit.
+ */
+export const createTagAndRelease = async (
+  githubClient: GitHubClient,
+  tagName: string,
+  sha: string,
+  body: string,
+  draft: boolean,
+  prerelease: boolean
+): Promise<Release> => {
+  const existingTagSha = await githubClient.getTagSha(tagName);
+  if (existingTagSha === null) {
+    core.info(`Creating tag ${tagName} at ${sha}.`);
+    await githubClient.createTag(tagName, sha);
+  } else if (existingTagSha === sha) {
+    core.info(`Tag ${tagName} already exists at ${sha}.`);
+  } else {
+    throw new Error(`Tag ${tagName} already exists and points to another commit (${existingTagSha}).`);
+  }
+
+  const existingRelease = await githubClient.getReleaseByTagName(tagName);
+  if (existingRelease) {
+    core.info(`Release of tag ${tagName} already exists: ${existingRelease.url}`);
+    return existingRelease;
+  }
+
+  core.info(`Creating ${draft ? 'draft ' : ''}${prerelease ? 'pre-release' : 'release'} ${tagName}.`);
+  const release = await githubClient.createRelease(tagName, body, draft, prerelease);
+  core.info(`Created release: ${release.url}`);
+  return release;
+}
+
+
+/**
+ * Create the floating tags, e.g. `v1` and `v1.2`, or force-update them to point to the commit.
+ */
+export const moveFloatingTags = async (githubClient: GitHubClient, tagNames: Array<string>, sha: string): Promise<void> => {
+  for (const tagName of tagNames) {
+    core.info(`Moving floating tag ${tagName} to ${sha}.`);
+    await githubClient.createOrUpdateTag(tagName, sha);
+  }
+}
@@ -0,0 +1,72 @@
+import * as core from '@actions/core';
+
+import { BumpDecision, CommitBumpDecision } from './types';
+import { escapeHtml } from './utils';
+
+
+/**
+ * Get a row of the commits table, with notes on how the commit was taken into account.
+ */
+const getCommitRow = (commitDecision: CommitBumpDecision, notes: Array<string>): Array<string> => {
+  return [
+    `<code>${commitDecision.sha.substring(0, 7)}</code>`,
+    escapeHtml(commitDecision.subject),
+    commitDecision.type ?? '',
+    commitDecision.bumpLevel,
+    notes.join(', '),
+  ];
+}
+
+
+/**
+ * Write a job summary explaining why the bump was chosen, with a table of the analyzed commits.
+ * Failing to write the summary, e.g. when running outside of GitHub Actions, only emits a warning.
+ */
+export const writeBumpDecisionSummary = async (
+  decision: BumpDecision,
+  currentVersion: string,
+  newVersion: string,
+  releaseNeeded: boolean
+): Promise<void> => {
+  const version = releaseNeeded
+    ? `<code>${currentVersion || '-'}</code> → <code>${newVersion}</code>`
+    : `<code>${currentVersion}</code> (no release needed)`;
+  const trigger = decision.trigger
+    ? `, triggered by <code>${decision.trigger.sha.substring(0, 7)}</code> ${escapeHtml(decision.trigger.subject)}`
+    : '';
+
+  const rows = [
+    ...decision.considered.map(commitDecision => getCommitRow(commitDecision, [
+      ...(commitDecision.breaking ? ['breaking change'] : []),
+      ...(commitDecision === decision.trigger ? ['triggered bump'] : []),
+    ])),
+    ...decision.nonConventional.map(commitDecision => getCommitRow(commitDecision, [
+      'not conventional',
+      ...(commitDecision === decision.trigger ? ['triggered bump'] : []),
+    ])),
+    ...decision.ignored.map(commitDecision => getCommitRow(commitDecision, ['ignored'])),
+  ];
+
+  try {
+    core.summary
+      .addHeading('Version bump', 2)
+      .addRaw(`Version: ${version}`, true)
+      .addBreak()
+      .addRaw(`Bump type: ${decision.bumpType ?? 'none'}${trigger}`, true);
+    if (rows.length > 0) {
+      core.summary.addTable([
+        [
+          { data: 'Commit', header: true },
+          { data: 'Subject', header: true },
+          { data: 'Type', header: true },
+          { data: 'Bump', header: true },
+          { data: 'Notes', header: true },
+        ],
+        ...rows,
+      ]);
+    }
+    await core.summary.write();
+  } catch (error) {
+    core.warning(`Failed to write job summary: ${error.message}`);
+  }
+}
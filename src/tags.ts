@@ -0,0 +1,110 @@
+import * as semver from 'semver';
+
+const VERSION_PLACEHOLDER = '{version}';
+const PACKAGE_PLACEHOLDER = '{package}';
+
+export const DEFAULT_TAG_PATTERN = `v${VERSION_PLACEHOLDER}`;
+
+
+/**
+ * Escape a string to be used literally in a regular expression.
+ */
+const escapeRegExp = (value: string): string => {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+
+/**
+ * Validate a tag pattern, e.g. `v{version}`, `{package}@{version}` or `api/v{version}`.
+ * An empty pattern is valid and accepts any tag which is a valid semver version.
+ */
+export const validateTagPattern = (tagPattern: string, packageName: string = ''): void => {
+  if (tagPattern === '') {
+    return;
+  }
+  if (tagPattern.split(VERSION_PLACEHOLDER).length !== 2) {
+    throw new Error(`Tag pattern (${tagPattern}) must contain ${VERSION_PLACEHOLDER} exactly once`);
+  }
+  if (tagPattern.includes(PACKAGE_PLACEHOLDER) && packageName === '') {
+    throw new Error(`Tag pattern (${tagPattern}) contains ${PACKAGE_PLACEHOLDER}, but no package name is given`);
+  }
+}
+
+
+/**
+ * Get the version from a tag according to the tag pattern, or null if the tag does not match.
+ * With an empty pattern, any tag which is a valid semver version (e.g. `v1.2.3` or `1.2.3`) matches.
+ * The returned version has no build metadata, e.g. `1.2.3-rc.1` for the tag `v1.2.3-rc.1+build.7`.
+ */
+export const getVersionFromTag = (tag: string, tagPattern: string = '', packageName: string = ''): string | null => {
+  if (tagPattern === '') {
+    return semver.valid(tag);
+  }
+
+  const [prefix, suffix] = tagPattern
+    .split(VERSION_PLACEHOLDER)
+    .map(part => escapeRegExp(part.split(PACKAGE_PLACEHOLDER).join(packageName)));
+  const match = new RegExp(`^${prefix}(.+)${suffix}$`).exec(tag);
+  if (!match) {
+    return null;
+  }
+
+  // Only the exact version is accepted, so e.g. `v` prefixes not present in the pattern are rejected.
+  // Build metadata is accepted but dropped, like semver does for tags matched without a pattern.
+  const version = semver.parse(match[1]);
+  if (!version) {
+    return null;
+  }
+  const build = version.build.length > 0 ? `+${version.build.join('.')}` : '';
+  return `${version.version}${build}` === match[1] ? version.version : null;
+}
+
+
+/**
+ * Render a tag for the version according to the tag pattern.
+ * With an empty pattern, the default `v{version}` pattern is used.
+ */
+export const renderTag = (version: string, tagPattern: string = '', packageName: string = ''): string => {
+  return (tagPattern || DEFAULT_TAG_PATTERN)
+    .split(PACKAGE_PLACEHOLDER).join(packageName)
+    .split(VERSION_PLACEHOLDER).join(version);
+}
+
+
+/**
+ * Get versions from all tags matching the tag pattern.
+ */
+export const getVersionsFromTags = (tags: Array<string>, tagPattern: string = '', packageName: string = ''): Array<string> => {
+  return tags
+    .map(tag => getVersionFromTag(tag, tagPattern, packageName))
+    .filter(version => version !== null);
+}
+
+
+/**
+ * Render the floating tags of a version according to the tag pattern,
+ * e.g. `v1` and `v1.2` for version `1.2.3` and the default pattern.
+ * A floating tag is only rendered if the version is the highest stable version of its major or minor line among
+ * the existing tags, so releases of maintenance branches, e.g. `1.2.5` while `1.3.0` exists, do not move `v1` back.
+ */
+export const renderFloatingTags = (
+  version: string,
+  major: boolean,
+  minor: boolean,
+  tagPattern: string = '',
+  packageName: string = '',
+  existingTags: Array<string> = []
+): Array<string> => {
+  const stableVersions = getVersionsFromTags(existingTags, tagPattern, packageName).filter(existingVersion => !semver.prerelease(existingVersion));
+  const isHighestOfLine = (line: string): boolean => stableVersions
+    .every(existingVersion => !semver.satisfies(existingVersion, line) || semver.lte(existingVersion, version));
+
+  const floatingVersions: Array<string> = [];
+  if (major && isHighestOfLine(`${semver.major(version)}.x`)) {
+    floatingVersions.push(`${semver.major(version)}`);
+  }
+  if (minor && isHighestOfLine(`${semver.major(version)}.${semver.minor(version)}.x`)) {
+    floatingVersions.push(`${semver.major(version)}.${semver.minor(version)}`);
+  }
+  return floatingVersions.map(floatingVersion => renderTag(floatingVersion, tagPattern, packageName));
+}
@@ -1,3 +1,8 @@
+import type { ReleaseType } from 'semver';
+
+import { parseKeyValueMapping } from './utils';
+import { Commit, PullRequest, Tag } from './github/types';
+
 export enum NotConventionalCommitsReaction {
   ERROR = 'error',
   WARN = 'warn',
@@ -16,3 +21,557 @@ export function getNotConventionalCommitsReactionEnumFromString(value: string):
       throw new Error(`Invalid NotConventionalCommitsReaction value: ${value}`);
   }
 }
+
+export enum BumpLevel {
+  MAJOR = 'major',
+  MINOR = 'minor',
+  PATCH = 'patch',
+  NONE = 'none',
+}
+
+export function getBumpLevelEnumFromString(value: string): BumpLevel {
+  switch (value.toLowerCase()) {
+    case 'major':
+      return BumpLevel.MAJOR;
+    case 'minor':
+      return BumpLevel.MINOR;
+    case 'patch':
+      return BumpLevel.PATCH;
+    case 'none':
+      return BumpLevel.NONE;
+    default:
+      throw new Error(`Invalid BumpLevel value: ${value}`);
+  }
+}
+
+/**
+ * Mapping of conventional commit types to bump levels.
+ * The `*` key, if present, applies to all types not listed explicitly.
+ */
+export type BumpMapping = Record<string, BumpLevel>;
+
+/**
+ * Parse a bump mapping given either as a JSON object or as `type: level` lines (flat YAML mapping).
+ */
+export function getBumpMappingFromString(value: string): BumpMapping {
+  const mapping: BumpMapping = {};
+  for (const [type, level] of parseKeyValueMapping(value, 'BumpMapping')) {
+    mapping[type.toLowerCase()] = getBumpLevelEnumFromString(level);
+  }
+  return mapping;
+}
+
+export enum PreReleaseMode {
+  SHA = 'sha',
+  COUNTER = 'counter',
+}
+
+export function getPreReleaseModeEnumFromString(value: string): PreReleaseMode {
+  switch (value.toLowerCase()) {
+    case 'sha':
+      return PreReleaseMode.SHA;
+    case 'counter':
+      return PreReleaseMode.COUNTER;
+    default:
+      throw new Error(`Invalid PreReleaseMode value: ${value}`);
+  }
+}
+
+export enum VersionSource {
+  RELEASE = 'release',
+  TAG = 'tag',
+}
+
+export function getVersionSourceEnumFromString(value: string): VersionSource {
+  switch (value.toLowerCase()) {
+    case 'release':
+      return VersionSource.RELEASE;
+    case 'tag':
+      return VersionSource.TAG;
+    default:
+      throw new Error(`Invalid VersionSource value: ${value}`);
+  }
+}
+
+export enum Backend {
+  GITHUB = 'github',
+  GITEA = 'gitea',
+  GIT = 'git',
+}
+
+export function getBackendEnumFromString(value: string): Backend {
+  switch (value.toLowerCase()) {
+    case 'github':
+      return Backend.GITHUB;
+    case 'gitea':
+      return Backend.GITEA;
+    case 'git':
+      return Backend.GIT;
+    default:
+      throw new Error(`Invalid Backend value: ${value}`);
+  }
+}
+
+export enum Mode {
+  VERSION = 'version',
+  LINT = 'lint',
+}
+
+export function getModeEnumFromString(value: string): Mode {
+  switch (value.toLowerCase()) {
+    case 'version':
+      return Mode.VERSION;
+    case 'lint':
+      return Mode.LINT;
+    default:
+      throw new Error(`Invalid Mode value: ${value}`);
+  }
+}
+
+export enum BumpFileFormat {
+  PACKAGE_JSON = 'package.json',
+  PYPROJECT = 'pyproject.toml',
+  CHART = 'Chart.yaml',
+  POM = 'pom.xml',
+  TEXT = 'text',
+}
+
+export function getBumpFileFormatEnumFromString(value: string): BumpFileFormat {
+  switch (value.toLowerCase()) {
+    case 'package.json':
+      return BumpFileFormat.PACKAGE_JSON;
+    case 'pyproject.toml':
+      return BumpFileFormat.PYPROJECT;
+    case 'chart.yaml':
+      return BumpFileFormat.CHART;
+    case 'pom.xml':
+      return BumpFileFormat.POM;
+    case 'text':
+      return BumpFileFormat.TEXT;
+    default:
+      throw new Error(`Invalid BumpFileFormat value: ${value}`);
+  }
+}
+
+/**
+ * File the new version is written into.
+ */
+export interface BumpFileConfig {
+  /** Path relative to the working directory */
+  path: string;
+  format: BumpFileFormat;
+}
+
+/**
+ * Parse a list of files to write the new version into, given as `path` or `path: format` lines.
+ * Without a format, it is inferred from the file name, e.g. `text` for `VERSION`.
+ */
+export function getBumpFileConfigsFromLines(lines: Array<string>): Array<BumpFileConfig> {
+  return lines
+    .map(line => line.trim())
+    .filter(line => line !== '' && !line.startsWith('#'))
+    .map(line => {
+      const separatorIndex = line.lastIndexOf(':');
+      if (separatorIndex !== -1) {
+        return {
+          path: line.substring(0, separatorIndex).trim(),
+          format: getBumpFileFormatEnumFromString(line.substring(separatorIndex + 1).trim()),
+        };
+      }
+
+      const fileName = line.split('/').pop();
+      if (/^VERSION(\.txt)?$/i.test(fileName)) {
+        return { path: line, format: BumpFileFormat.TEXT };
+      }
+      try {
+        return { path: line, format: getBumpFileFormatEnumFromString(fileName) };
+      } catch (error) {
+        throw new Error(`Cannot infer the format of file ${line}, give it as '${line}: format'`);
+      }
+    });
+}
+
+/**
+ * Receives the log of determining the next version, written to the workflow log by the action
+ * and to stderr by the CLI.
+ */
+export interface Logger {
+  debug(message: string): void;
+  info(message: string): void;
+  warning(message: string): void;
+}
+
+/**
+ * Read access to the tags and commits of a repository, needed to determine the next version.
+ * Implemented by `GitHubClient` and `GiteaClient` using the REST APIs of the forges,
+ * and by `LocalGitClient` using the local working copy.
+ */
+export interface RepositoryClient {
+  /** Get the latest release tag name, or null if no releases exist. */
+  getLatestReleaseTag(): Promise<string | null>;
+  /** Get the tag names of all published releases, excluding drafts and pre-releases. */
+  getReleaseTagNames(): Promise<Array<string>>;
+  /** Get a list of commits between two git references, ordered from the oldest to the newest. */
+  getListOfCommitsBetween(rangeBegin: string, rangeEnd: string, includeFiles?: boolean): Promise<Array<Commit>>;
+  /** Get a list of files changed by a commit. */
+  getListOfFilesChangedBy(sha: string): Promise<Array<string>>;
+  /** Get the names of all tags in the repository. */
+  getTagNames(): Promise<Array<string>>;
+  /** Get all tags in the repository together with the SHAs of the commits they point to. */
+  getTags(): Promise<Array<Tag>>;
+  /** Get the name of the tag with the highest stable semver version, or null if there is none. */
+  getLatestVersionTag(): Promise<string | null>;
+  /** Get the SHA of the commit a git reference (branch, tag, SHA) points to. */
+  getCommitSha(ref: string): Promise<string>;
+  /** Get the default branch name of the repository. */
+  getDefaultBranchName(): Promise<string>;
+  /** Get the merged pull requests each commit belongs to, by commit SHA. Only implemented by `GitHubClient`. */
+  getMergedPullRequestsOfCommits?(shas: Array<string>): Promise<Map<string, Array<PullRequest>>>;
+}
+
+/**
+ * Mapping of branch name patterns to pre-release identifiers (e.g. `alpha`, `beta`, `rc`).
+ */
+export type PreReleaseIdentifierMapping = Record<string, string>;
+
+const PRE_RELEASE_IDENTIFIER_PATTERN = /^[0-9A-Za-z-]*[A-Za-z-][0-9A-Za-z-]*$/;
+
+/**
+ * Parse a pre-release identifier mapping given either as a single identifier used for all branches,
+ * as a JSON object or as `branch-pattern: identifier` lines.
+ */
+export function getPreReleaseIdentifierMappingFromString(value: string): PreReleaseIdentifierMapping {
+  const trimmedValue = value.trim();
+  const entries: Array<[string, string]> = /^[^\n:{]+$/.test(trimmedValue)
+    ? [['*', trimmedValue]]
+    : parseKeyValueMapping(trimmedValue, 'PreReleaseIdentifierMapping');
+
+  const mapping: PreReleaseIdentifierMapping = {};
+  for (const [branchPattern, identifier] of entries) {
+    if (!PRE_RELEASE_IDENTIFIER_PATTERN.test(identifier)) {
+      throw new Error(`Invalid pre-release identifier for branch pattern '${branchPattern}': ${identifier}`);
+    }
+    mapping[branchPattern] = identifier;
+  }
+  return mapping;
+}
+
+/**
+ * Configuration of branches matching a pattern.
+ */
+export interface BranchConfig {
+  /** Branch name pattern, where `*` matches any characters */
+  pattern: string;
+  /** Whether versions released from the branch are stable (without pre-release suffix) */
+  stable?: boolean;
+  /** Pre-release channel, used as the pre-release identifier of versions released from the branch */
+  channel?: string;
+  /** Release line the versions released from the branch must stay within, e.g. `1.x` or `1.2.x` */
+  line?: string;
+}
+
+const RELEASE_LINE_PATTERN = /^\d+(\.(\d+|x))?(\.x)?$/;
+
+/**
+ * Parse a list of branch configurations given as a JSON array.
+ */
+export function getBranchConfigsFromString(value: string): Array<BranchConfig> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(value);
+  } catch (error) {
+    throw new Error(`Invalid BranchConfig JSON: ${error.message}`);
+  }
+  if (!Array.isArray(parsed)) {
+    throw new Error(`Invalid BranchConfig value, expected an array: ${value}`);
+  }
+
+  return parsed.map((entry: BranchConfig) => {
+    if (entry === null || typeof entry !== 'object' || typeof entry.pattern !== 'string' || entry.pattern === '') {
+      throw new Error(`Invalid BranchConfig entry, pattern is required: ${JSON.stringify(entry)}`);
+    }
+    if (entry.stable !== undefined && typeof entry.stable !== 'boolean') {
+      throw new Error(`Invalid BranchConfig entry for pattern '${entry.pattern}', stable must be a boolean`);
+    }
+    if (entry.channel !== undefined && (typeof entry.channel !== 'string' || !PRE_RELEASE_IDENTIFIER_PATTERN.test(entry.channel))) {
+      throw new Error(`Invalid BranchConfig entry for pattern '${entry.pattern}', channel must be a valid pre-release identifier`);
+    }
+    if (entry.stable && entry.channel !== undefined) {
+      throw new Error(`Invalid BranchConfig entry for pattern '${entry.pattern}', stable branch cannot have a channel`);
+    }
+    if (entry.line !== undefined && (typeof entry.line !== 'string' || !RELEASE_LINE_PATTERN.test(entry.line))) {
+      throw new Error(`Invalid BranchConfig entry for pattern '${entry.pattern}', line must be in format major[.minor][.x]`);
+    }
+
+    return {
+      pattern: entry.pattern,
+      stable: entry.stable,
+      channel: entry.channel,
+      line: entry.line,
+    };
+  });
+}
+
+/**
+ * Configuration of a package in multi-package mode.
+ */
+export interface PackageConfig {
+  /** Package name, substituted for `{package}` in the tag pattern */
+  name: string;
+  /** Path globs of the package files, see `filterCommitsByPaths` */
+  paths: Array<string>;
+  /** Pattern of the package release tags, defaults to the `tag-pattern` input or `{package}@{version}` */
+  tagPattern?: string;
+  /** Names of packages the package depends on */
+  dependencies?: Array<string>;
+  /** Commit scope globs routed to the package regardless of the changed files, see `filterCommitsOfPackage` */
+  scopes?: Array<string>;
+  /** Files the new version of the package is written into */
+  bumpFiles?: Array<BumpFileConfig>;
+}
+
+/**
+ * Parse a list of package configurations given as a JSON array.
+ * Each package has either a single `path` or a list of `paths`.
+ */
+export function getPackageConfigsFromString(value: string): Array<PackageConfig> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(value);
+  } catch (error) {
+    throw new Error(`Invalid PackageConfig JSON: ${error.message}`);
+  }
+  if (!Array.isArray(parsed)) {
+    throw new Error(`Invalid PackageConfig value, expected an array: ${value}`);
+  }
+
+  const isStringArray = (array: unknown): array is Array<string> => {
+    return Array.isArray(array) && array.every(item => typeof item === 'string');
+  };
+
+  const packageConfigs = parsed.map((entry: Omit<PackageConfig, 'bumpFiles'> & { path?: string, bumpFiles?: Array<string> }) => {
+    if (entry === null || typeof entry !== 'object' || typeof entry.name !== 'string' || entry.name === '') {
+      throw new Error(`Invalid PackageConfig entry, name is required: ${JSON.stringify(entry)}`);
+    }
+    const paths = typeof entry.path === 'string' ? [entry.path] : entry.paths;
+    if (!isStringArray(paths) || paths.length === 0) {
+      throw new Error(`Invalid PackageConfig entry for package '${entry.name}', path or paths is required`);
+    }
+    if (entry.tagPattern !== undefined && typeof entry.tagPattern !== 'string') {
+      throw new Error(`Invalid PackageConfig entry for package '${entry.name}', tagPattern must be a string`);
+    }
+    if (entry.dependencies !== undefined && !isStringArray(entry.dependencies)) {
+      throw new Error(`Invalid PackageConfig entry for package '${entry.name}', dependencies must be an array of package names`);
+    }
+    if (entry.scopes !== undefined && !isStringArray(entry.scopes)) {
+      throw new Error(`Invalid PackageConfig entry for package '${entry.name}', scopes must be an array of commit scopes`);
+    }
+    if (entry.bumpFiles !== undefined && !isStringArray(entry.bumpFiles)) {
+      throw new Error(`Invalid PackageConfig entry for package '${entry.name}', bumpFiles must be an array of files`);
+    }
+    let bumpFiles: Array<BumpFileConfig> | undefined;
+    try {
+      bumpFiles = entry.bumpFiles && getBumpFileConfigsFromLines(entry.bumpFiles);
+    } catch (error) {
+      throw new Error(`Invalid PackageConfig entry for package '${entry.name}', ${error.message}`);
+    }
+
+    return {
+      name: entry.name,
+      paths,
+      tagPattern: entry.tagPattern,
+      dependencies: entry.dependencies,
+      scopes: entry.scopes,
+      bumpFiles,
+    };
+  });
+
+  const packageNames = packageConfigs.map(packageConfig => packageConfig.name);
+  for (const packageConfig of packageConfigs) {
+    if (packageNames.indexOf(packageConfig.name) !== packageNames.lastIndexOf(packageConfig.name)) {
+      throw new Error(`Invalid PackageConfig value, package '${packageConfig.name}' is defined more than once`);
+    }
+    for (const dependency of packageConfig.dependencies ?? []) {
+      if (!packageNames.includes(dependency)) {
+        throw new Error(`Invalid PackageConfig entry for package '${packageConfig.name}', unknown dependency '${dependency}'`);
+      }
+    }
+  }
+
+  return packageConfigs;
+}
+
+/**
+ * How a single commit was taken into account for the bump.
+ */
+export interface CommitBumpDecision {
+  sha: string;
+  /** First line of the commit message */
+  subject: string;
+  /** Conventional commit type, or null for ignored and non-conventional commits */
+  type: string | null;
+  breaking: boolean;
+  bumpLevel: BumpLevel;
+}
+
+/**
+ * Bump type determined from a list of commits, together with the reasons for it.
+ */
+export interface BumpDecision {
+  /** Bump type, or null when none of the commits requires a release */
+  bumpType: ReleaseType | null;
+  /** Commits in conventional-commits format */
+  considered: Array<CommitBumpDecision>;
+  /** Commits ignored by `IGNORE_MESSAGE_PATTERN`, e.g. merge commits */
+  ignored: Array<CommitBumpDecision>;
+  /** Commits not in conventional-commits format, released as patch */
+  nonConventional: Array<CommitBumpDecision>;
+  /** First commit requiring the bump type, or null when no release is needed */
+  trigger: CommitBumpDecision | null;
+}
+
+/**
+ * Pull request title or commit message which is not in conventional-commits format.
+ */
+export interface LintIssue {
+  /** SHA of the commit, or null for the pull request title */
+  sha: string | null;
+  subject: string;
+  /** Error of the conventional-commits parser */
+  error: string;
+}
+
+/**
+ * Result of checking a pull request title and commit messages against the conventional-commits format.
+ */
+export interface LintReport {
+  /** Number of checked messages, excluding the ones ignored by `IGNORE_MESSAGE_PATTERN` */
+  checked: number;
+  issues: Array<LintIssue>;
+}
+
+/**
+ * Version determined for a package in multi-package mode.
+ */
+export interface PackageVersion {
+  latestReleaseTag: string;
+  currentVersion: string;
+  newVersion: string;
+  newTag: string;
+  bumpType: string;
+  releaseNeeded: boolean;
+  /** Changelog generated from the commits of the package */
+  changelog: string;
+}
+
+/**
+ * Values of the placeholders of a pre-release template, see `renderPreReleaseTemplate`.
+ */
+export interface PreReleaseTemplateValues {
+  /** Branch name, sanitized when rendered */
+  branch: string;
+  runNumber: number | null;
+  pullRequestNumber: number | null;
+  sha: string;
+  timestamp: Date;
+}
+
+/**
+ * Version rendered for the version rules of package ecosystems, see `renderVersionFormats`.
+ */
+export interface FormattedVersions {
+  pep440: string;
+  nuget: string;
+  maven: string;
+  docker: string;
+}
+
+/**
+ * Version determined in single-package mode.
+ */
+export interface VersionResult {
+  latestReleaseTag: string;
+  currentVersion: string;
+  newVersion: string;
+  newMajorVersion: number;
+  newTag: string;
+  releaseNeeded: boolean;
+  changelog: string;
+  bumpDecision: BumpDecision;
+  /** Whether the target branch releases stable versions */
+  stable: boolean;
+  /** New version rendered for package ecosystems, null if it is not valid semver */
+  formattedVersions: FormattedVersions | null;
+}
+
+/**
+ * Versions determined in multi-package mode.
+ */
+export interface PackagesVersionResult {
+  releaseNeeded: boolean;
+  /** Whether the target branch releases stable versions */
+  stable: boolean;
+  packages: Record<string, PackageVersion>;
+}
+
+/**
+ * Optional settings of the main function.
+ */
+export interface MainOptions {
+  /** Commit type to bump level mapping, as JSON or `type: level` lines, merged over the defaults. */
+  bumpMapping?: string;
+  /** Keep the current version when there are no commits or only commits of types mapped to `none`. */
+  skipReleaseWhenNotNeeded?: boolean;
+  /** While the current version is 0.y.z, bump minor for breaking changes and patch for features. */
+  initialDevelopmentMode?: boolean;
+  /** How pre-release versions are suffixed: with commit SHA or with an incrementing counter. */
+  preReleaseMode?: string;
+  /** Pre-release identifier, or branch pattern to identifier mapping, used in counter mode. */
+  preReleaseIdentifier?: string;
+  /** Branch configurations as JSON array, replacing the default branch based stable/pre-release decision. */
+  branches?: string;
+  /** Where to look up the latest version: GitHub Releases or plain git tags. */
+  versionSource?: string;
+  /** Pattern of release tags, e.g. `{package}@{version}`; empty accepts any semver tag. */
+  tagPattern?: string;
+  /** Package name substituted for `{package}` in the tag pattern. */
+  packageName?: string;
+  /** Path globs; only commits changing matching files are analyzed. Patterns starting with `!` exclude files. */
+  paths?: Array<string>;
+  /** Commit scope globs; only commits with a matching scope are analyzed. Patterns starting with `!` exclude scopes. */
+  scopes?: Array<string>;
+  /** Package configurations as JSON array, enabling multi-package mode. */
+  packages?: string;
+  /** In multi-package mode, release packages whose dependencies are released. */
+  bumpDependents?: boolean;
+  /** Create the new tag at the target commit and a GitHub Release of it when a release is needed. */
+  createRelease?: boolean;
+  /** Create the GitHub Release as a draft. */
+  releaseDraft?: boolean;
+  /** Create or force-update the floating `v{major}` tag of stable versions. */
+  updateMajorTag?: boolean;
+  /** Create or force-update the floating `v{major}.{minor}` tag of stable versions. */
+  updateMinorTag?: boolean;
+  /** Commit SHA used in SHA pre-release suffixes, defaults to the SHA the target branch points to. */
+  commitSha?: string;
+  /** Where tags and commits are read from: the GitHub or Gitea REST API, or the local git working copy. */
+  backend?: string;
+  /** URL of the API of the forge, required for Gitea and defaulting to the GitHub API of the workflow run for GitHub. */
+  apiUrl?: string;
+  /** Files to write the new version into, as `path` or `path: format` lines. */
+  bumpFiles?: Array<string>;
+  /** Template of pre-release identifiers and build metadata, e.g. `{branch}.{run_number}.{sha7}`, replacing glue and SHA. */
+  preReleaseTemplate?: string;
+  /** Branch name used in the pre-release template, defaults to the name of the target branch. */
+  branchName?: string;
+  /** Workflow run number used in the pre-release template. */
+  runNumber?: number;
+  /** Pull request number used in the pre-release template. */
+  pullRequestNumber?: number;
+  /** Git reference whose commits are analyzed instead of the target branch, which still decides how the version is suffixed. */
+  analyzedRef?: string;
+  /** What the action does: determine the next version, or lint a pull request and comment the predicted version. */
+  mode?: string;
+  /** Analyze the title and labels of the pull request each commit was merged with instead of the commit messages. */
+  resolvePullRequests?: boolean;
+}
@@ -1,5 +1,17 @@
 import * as core from '@actions/core';
 
+import type { Logger } from './types';
+
+/**
+ * Logger writing to the workflow log through `@actions/core`.
+ */
+export const actionsLogger: Logger = {
+  debug: message => core.debug(message),
+  info: message => core.info(message),
+  warning: message => core.warning(message),
+};
+
+
 /**
  * Require a non-empty string input.
  * @param name 
@@ -12,3 +24,102 @@ export const requireNonEmptyStringInput = (name: string): string => {
   }
   return value;
 }
+
+
+/**
+ * Escape characters with special meaning in HTML.
+ */
+export const escapeHtml = (value: string): string => {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+
+/**
+ * Parse a flat mapping given either as a JSON object or as `key: value` lines (flat YAML mapping).
+ * Empty lines and lines starting with `#` are skipped, keys and values may be quoted.
+ * @param value 
+ * @param name Name of the mapping used in error messages
+ * @returns List of key and value pairs in the order of appearance
+ */
+export const parseKeyValueMapping = (value: string, name: string): Array<[string, string]> => {
+  const trimmedValue = value.trim();
+
+  if (trimmedValue.startsWith('{')) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(trimmedValue);
+    } catch (error) {
+      throw new Error(`Invalid ${name} JSON: ${error.message}`);
+    }
+    if (parsed === null || typeof parsed !== 'object' || Array.isArray(parsed)) {
+      throw new Error(`Invalid ${name} value: ${value}`);
+    }
+    return Object.entries(parsed).map(([key, entryValue]) => {
+      if (typeof entryValue !== 'string') {
+        throw new Error(`Invalid ${name} value for '${key}': ${String(entryValue)}`);
+      }
+      return [key, entryValue];
+    });
+  }
+
+  const unquote = (text: string) => text.trim().replace(/^(['"])(.*)\1$/, '$2');
+  return trimmedValue
+    .split(/\r?\n/)
+    .map(line => line.trim())
+    .filter(line => line !== '' && !line.startsWith('#'))
+    .map(line => {
+      const separatorIndex = line.indexOf(':');
+      if (separatorIndex === -1) {
+        throw new Error(`Invalid ${name} line: ${line}`);
+      }
+      return [unquote(line.substring(0, separatorIndex)), unquote(line.substring(separatorIndex + 1))];
+    });
+}
+
+/**
+ * Check if a value matches a simple glob pattern, where `*` matches any sequence of characters.
+ * @param value 
+ * @param pattern 
+ * @returns 
+ */
+export const matchesGlobPattern = (value: string, pattern: string): boolean => {
+  const regExpSource = pattern
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${regExpSource}$`).test(value);
+}
+
+
+/**
+ * Check if a file path matches a glob pattern, where `**` matches any number of directories,
+ * `*` matches any characters except `/` and `?` matches a single character except `/`.
+ * Patterns ending with `/` match everything within the directory.
+ * @param path 
+ * @param pattern 
+ * @returns 
+ */
+export const matchesPathPattern = (path: string, pattern: string): boolean => {
+  const normalizedPattern = (pattern.endsWith('/') ? `${pattern}**` : pattern).replace(/^\.\//, '');
+  let regExpSource = '';
+  for (let i = 0; i < normalizedPattern.length; i++) {
+    const char = normalizedPattern[i];
+    if (char === '*' && normalizedPattern[i + 1] === '*') {
+      // `**/` also matches zero directories
+      if (normalizedPattern[i + 2] === '/') {
+        regExpSource += '(?:.*/)?';
+        i += 2;
+      } else {
+        regExpSource += '.*';
+        i += 1;
+      }
+    } else if (char === '*') {
+      regExpSource += '[^/]*';
+    } else if (char === '?') {
+      regExpSource += '[^/]';
+    } else {
+      regExpSource += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${regExpSource}$`).test(path);
+}